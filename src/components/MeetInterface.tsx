@@ -7,6 +7,7 @@ import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { toast } from 'sonner';
+import { colorForUser } from '@/lib/whiteboard/presence';
 
 interface User {
   id: string;
@@ -165,10 +166,14 @@ const MeetInterface: React.FC<MeetInterfaceProps> = ({ roomId, userName, onLeave
                 <Card key={user.id} className="p-3">
                   <div className="flex items-center justify-between">
                     <div>
-                      <div className="font-medium text-sm">
+                      <div className="flex items-center gap-2 font-medium text-sm">
+                        <span
+                          className="w-2.5 h-2.5 rounded-full"
+                          style={{ backgroundColor: colorForUser(user.id) }}
+                        />
                         {user.name}
                         {user.isCurrentUser && (
-                          <span className="text-blue-600 ml-1">(You)</span>
+                          <span className="text-blue-600">(You)</span>
                         )}
                       </div>
                       <div className="text-xs text-gray-500">
@@ -263,6 +268,7 @@ const MeetInterface: React.FC<MeetInterfaceProps> = ({ roomId, userName, onLeave
           <WhiteboardCanvas
             roomId={roomId}
             socket={socket}
+            userName={userName}
             className="h-full"
           />
         </div>
@@ -1,4 +1,4 @@
-import React, { useEffect, useRef, useState, useReducer } from 'react';
+import React, { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
 import {
   MousePointer2,
   Pencil,
@@ -14,14 +14,68 @@ import {
   ZoomOut,
   Layers,
   Trash2,
-  Move
+  Move,
+  BoxSelect,
+  Lasso,
+  BringToFront,
+  SendToBack,
+  ChevronUp,
+  ChevronDown,
+  Lock,
+  LockOpen,
+  Download,
+  Save,
+  FolderOpen,
+  Import
 } from 'lucide-react';
 import { io, Socket } from 'socket.io-client';
+import { Point, Tool, WhiteboardElement } from '@/lib/whiteboard/types';
+import { BoardSnapshot, BoardSyncRequest, WhiteboardOp, createId } from '@/lib/whiteboard/ops';
+import {
+  CURSOR_EXPIRE_MS,
+  CURSOR_THROTTLE_MS,
+  RemoteCursor,
+  getCursorTickDelay,
+  throttle,
+} from '@/lib/whiteboard/presence';
+import { BoardHost, createBoardHost } from '@/lib/whiteboard/board-host';
+import { BoardSummary, SessionCommand, ToolSettings } from '@/lib/whiteboard/board-session';
+import {
+  Camera,
+  PINCH_ZOOM_SPEED,
+  WHEEL_ZOOM_SPEED,
+  ZOOM_STEP,
+  clampZoom,
+  getWheelDelta,
+  panCamera,
+  screenToWorld,
+  worldToScreen,
+  zoomCameraAt,
+} from '@/lib/whiteboard/camera';
+import {
+  PASTE_OFFSET,
+  cloneElements,
+  readClipboardEvent,
+  readElementsFromClipboard,
+  serializeClipboard,
+  writeElementsToClipboard,
+} from '@/lib/whiteboard/clipboard';
+import { RegionSelectMode, SelectionRegion } from '@/lib/whiteboard/selection';
+import { ZOrderCommand } from '@/lib/whiteboard/zorder';
+import LayersPanel from './whiteboard/LayersPanel';
+import ElementContextMenu from './whiteboard/ElementContextMenu';
+import ExportDialog from './whiteboard/ExportDialog';
+import { ExportScope } from '@/lib/whiteboard/export';
+import { BOARD_FILE_EXTENSION, parseBoardFile, saveBoardFile } from '@/lib/whiteboard/board-file';
+import { EXCALIDRAW_EXTENSION, describeSkipped, importExcalidraw } from '@/lib/whiteboard/excalidraw';
+import { DRAWIO_EXTENSIONS, importDrawio, isDrawioFile } from '@/lib/whiteboard/drawio';
+import { useCanvasSize } from '@/hooks/use-canvas-size';
+import { EraserMode } from '@/lib/whiteboard/eraser';
+import { DEFAULT_SIMPLIFY_TOLERANCE, DEFAULT_STREAMLINE } from '@/lib/whiteboard/stroke';
+import { toast } from 'sonner';
 
 // --- TYPES AND CONSTANTS ---
 
-type Tool = 'select' | 'pan' | 'freehand' | 'rect' | 'circle' | 'arrow' | 'text' | 'eraser';
-
 const TOOLS = {
   SELECT: 'select' as Tool,
   PAN: 'pan' as Tool,
@@ -35,430 +89,745 @@ const TOOLS = {
 
 const COLORS = ['#1e1e1e', '#e03131', '#2f9e44', '#1971c2', '#f08c00'];
 const STROKES = [2, 4, 6, 8];
+// Eraser diameters in screen pixels
 const ERASER_STROKES = [8, 12, 20, 32];
+const ERASER_MODES: { mode: EraserMode; label: string; title: string }[] = [
+  { mode: 'object', label: 'Object', title: 'Erase whole elements' },
+  { mode: 'split', label: 'Stroke', title: 'Cut through freehand strokes' },
+  { mode: 'mask', label: 'Pixel', title: 'Paint out pixels' },
+];
 const FONT_SIZES = [16, 24, 32, 48];
 
-interface Point {
-  x: number;
-  y: number;
-}
+// Touch input is ignored while a pen is down or was used this recently
+const PALM_REJECTION_MS = 500;
 
-interface BBox {
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-}
+const emptySummary: BoardSummary = { selected: [], layers: null, canUndo: false, canRedo: false, hovering: false };
 
-interface WhiteboardElement {
-  id: string;
-  type: Tool;
-  points: Point[];
-  color: string;
-  strokeWidth: number;
-  fontSize?: number;
-  text?: string;
-  bbox?: BBox;
+// Two-finger touch gesture, relative to where it started
+interface PinchGesture {
+  camera: Camera;
+  center: Point;
+  distance: number;
 }
 
-interface WhiteboardState {
-  elements: WhiteboardElement[];
-  selectedElementIds: string[];
-  history: WhiteboardElement[][];
-  historyIndex: number;
-  zoom: number;
-  pan: Point;
+// Safari reports trackpad pinches as non-standard gesture events
+interface GestureEvent extends UIEvent {
+  scale: number;
+  clientX: number;
+  clientY: number;
 }
 
-type WhiteboardAction =
-  | { type: 'ADD_ELEMENT'; element: WhiteboardElement }
-  | { type: 'UPDATE_ELEMENT'; id: string; updates: Partial<WhiteboardElement> }
-  | { type: 'DELETE_ELEMENTS'; ids: string[] }
-  | { type: 'SELECT_ELEMENTS'; ids: string[] }
-  | { type: 'CLEAR_SELECTION' }
-  | { type: 'UNDO' }
-  | { type: 'REDO' }
-  | { type: 'CLEAR_ALL' }
-  | { type: 'SET_ZOOM'; zoom: number }
-  | { type: 'SET_PAN'; pan: Point }
-  | { type: 'LOAD_STATE'; state: WhiteboardElement[] };
-
 interface WhiteboardCanvasProps {
   roomId: string;
   socket?: Socket;
+  userName?: string;
   className?: string;
+  // Freehand input smoothing (0..1) and simplification tolerance in screen pixels
+  streamline?: number;
+  simplifyTolerance?: number;
+  // Keep the board and draw it in a Web Worker where OffscreenCanvas is
+  // supported, leaving the main thread free on very large boards. Read once
+  // when the canvas mounts.
+  renderInWorker?: boolean;
 }
 
-const whiteboardReducer = (state: WhiteboardState, action: WhiteboardAction): WhiteboardState => {
-  switch (action.type) {
-    case 'ADD_ELEMENT':
-      const newElements = [...state.elements, action.element];
-      return {
-        ...state,
-        elements: newElements,
-        history: [...state.history.slice(0, state.historyIndex + 1), newElements],
-        historyIndex: state.historyIndex + 1,
-      };
-    
-    case 'UPDATE_ELEMENT':
-      const updatedElements = state.elements.map(el =>
-        el.id === action.id ? { ...el, ...action.updates } : el
-      );
-      return {
-        ...state,
-        elements: updatedElements,
-      };
-    
-    case 'DELETE_ELEMENTS':
-      const filteredElements = state.elements.filter(el => !action.ids.includes(el.id));
-      return {
-        ...state,
-        elements: filteredElements,
-        selectedElementIds: [],
-        history: [...state.history.slice(0, state.historyIndex + 1), filteredElements],
-        historyIndex: state.historyIndex + 1,
-      };
-    
-    case 'SELECT_ELEMENTS':
-      return {
-        ...state,
-        selectedElementIds: action.ids,
-      };
-    
-    case 'CLEAR_SELECTION':
-      return {
-        ...state,
-        selectedElementIds: [],
-      };
-    
-    case 'UNDO':
-      if (state.historyIndex > 0) {
-        return {
-          ...state,
-          elements: state.history[state.historyIndex - 1],
-          historyIndex: state.historyIndex - 1,
-          selectedElementIds: [],
-        };
-      }
-      return state;
-    
-    case 'REDO':
-      if (state.historyIndex < state.history.length - 1) {
-        return {
-          ...state,
-          elements: state.history[state.historyIndex + 1],
-          historyIndex: state.historyIndex + 1,
-          selectedElementIds: [],
-        };
-      }
-      return state;
-    
-    case 'CLEAR_ALL':
-      const emptyElements: WhiteboardElement[] = [];
-      return {
-        ...state,
-        elements: emptyElements,
-        selectedElementIds: [],
-        history: [...state.history.slice(0, state.historyIndex + 1), emptyElements],
-        historyIndex: state.historyIndex + 1,
-      };
-    
-    case 'SET_ZOOM':
-      return {
-        ...state,
-        zoom: Math.max(0.1, Math.min(5, action.zoom)),
-      };
-    
-    case 'SET_PAN':
-      return {
-        ...state,
-        pan: action.pan,
-      };
-    
-    case 'LOAD_STATE':
-      return {
-        ...state,
-        elements: action.state,
-      };
-    
-    default:
-      return state;
-  }
-};
-
-const WhiteboardCanvas: React.FC<WhiteboardCanvasProps> = ({ roomId, socket, className = "" }) => {
+const WhiteboardCanvas: React.FC<WhiteboardCanvasProps> = ({
+  roomId,
+  socket,
+  userName = 'Guest',
+  className = "",
+  streamline = DEFAULT_STREAMLINE,
+  simplifyTolerance = DEFAULT_SIMPLIFY_TOLERANCE,
+  renderInWorker = true,
+}) => {
+  // Receives input; the board host draws its layers beneath it
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [state, dispatch] = useReducer(whiteboardReducer, {
-    elements: [],
-    selectedElementIds: [],
-    history: [[]],
-    historyIndex: 0,
-    zoom: 1,
-    pan: { x: 0, y: 0 },
-  });
+  const layersRef = useRef<HTMLDivElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  // The layers fill the container; their backing stores are scaled by the pixel ratio
+  const canvasSize = useCanvasSize(containerRef);
+  const [camera, setCamera] = useState<Camera>({ zoom: 1, pan: { x: 0, y: 0 } });
+  // The host owns the board; the component only sees the summary it reports.
+  // Kept in state so the effects feeding it re-run for a new one, and in a
+  // ref so handlers registered once can reach the current one.
+  const [host, setHost] = useState<BoardHost | null>(null);
+  const hostRef = useRef<BoardHost | null>(null);
+  const [summary, setSummary] = useState(emptySummary);
+  // Stamps this user's ops, so echoes of them can be ignored
+  const [clientId] = useState(createId);
+  // Offsets successive pastes of the same clipboard content
+  const pasteOffsetRef = useRef<{ key: string; count: number }>({ key: '', count: 0 });
+  const gestureZoomRef = useRef(1);
+  // Pointer that owns the current draw/select/pan interaction
+  const primaryPointerRef = useRef<number | null>(null);
+  // Touch points currently on the canvas, in screen pixels
+  const touchesRef = useRef(new Map<number, Point>());
+  const pinchRef = useRef<PinchGesture | null>(null);
+  const lastPenTimeRef = useRef(0);
 
   const [currentTool, setCurrentTool] = useState<Tool>(TOOLS.FREEHAND);
   const [currentColor, setCurrentColor] = useState(COLORS[0]);
   const [currentStroke, setCurrentStroke] = useState(STROKES[1]);
   const [currentFontSize, setCurrentFontSize] = useState(FONT_SIZES[0]);
-  const [isDrawing, setIsDrawing] = useState(false);
-  const [currentElement, setCurrentElement] = useState<WhiteboardElement | null>(null);
-  const [startPoint, setStartPoint] = useState<Point | null>(null);
   const [textInput, setTextInput] = useState<{ x: number; y: number; value: string } | null>(null);
+  const [remoteCursors, setRemoteCursors] = useState<Record<string, RemoteCursor>>({});
+  const [now, setNow] = useState(() => Date.now());
+  const [regionTool, setRegionTool] = useState<SelectionRegion['kind']>('marquee');
+  const [regionMode, setRegionMode] = useState<RegionSelectMode>('intersect');
+  const [showLayers, setShowLayers] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [contextTargets, setContextTargets] = useState<WhiteboardElement[]>([]);
+  // Last screen position of an in-progress pan drag
+  const [panDrag, setPanDrag] = useState<Point | null>(null);
+  const [spaceHeld, setSpaceHeld] = useState(false);
+  const [eraserMode, setEraserMode] = useState<EraserMode>('object');
+  const [eraserSize, setEraserSize] = useState(ERASER_STROKES[1]);
 
-  // Socket.IO event handlers
-  useEffect(() => {
-    if (!socket) return;
+  const settings = useMemo<ToolSettings>(
+    () => ({
+      tool: currentTool,
+      color: currentColor,
+      strokeWidth: currentStroke,
+      fontSize: currentFontSize,
+      eraserMode,
+      eraserSize,
+      regionTool,
+      regionMode,
+      streamline,
+      simplifyTolerance,
+    }),
+    [currentTool, currentColor, currentStroke, currentFontSize, eraserMode, eraserSize, regionTool, regionMode, streamline, simplifyTolerance]
+  );
 
-    socket.emit('join-board', roomId);
+  const selectedElements = summary.selected;
+  const selectedIds = useMemo(() => selectedElements.map(el => el.id), [selectedElements]);
+  // Locked elements can be selected (from the layers panel or context menu)
+  // but not moved, resized, rotated or deleted
+  const selectionLocked = selectedElements.some(el => el.locked);
 
-    socket.on('whiteboard-update', (data: WhiteboardElement[]) => {
-      dispatch({ type: 'LOAD_STATE', state: data });
-    });
+  // Send ops to other users
+  const emitOps = (ops: WhiteboardOp[]) => {
+    if (socket) {
+      ops.forEach(op => socket.emit('whiteboard-op', { boardId: roomId, op }));
+    }
+  };
+  // Reached from the host, which is created once
+  const emitOpsRef = useRef(emitOps);
+  emitOpsRef.current = emitOps;
+
+  // Settings and mode the host starts from
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  const renderInWorkerRef = useRef(renderInWorker);
 
+  // The host draws on its own animation frames; these effects only hand it
+  // the latest input. Created once in a layout effect so the effects below
+  // and the socket handlers always find it.
+  useLayoutEffect(() => {
+    if (!layersRef.current) return;
+    const created = createBoardHost(
+      layersRef.current,
+      { worker: renderInWorkerRef.current, clientId, settings: settingsRef.current },
+      { onOps: ops => emitOpsRef.current(ops), onSummary: setSummary }
+    );
+    hostRef.current = created;
+    setHost(created);
     return () => {
-      socket.off('whiteboard-update');
+      created.dispose();
+      hostRef.current = null;
     };
-  }, [socket, roomId]);
+  }, [clientId]);
 
-  // Emit changes to other users
-  const emitWhiteboardUpdate = () => {
-    if (socket) {
-      socket.emit('whiteboard-update', { boardId: roomId, data: state.elements });
-    }
-  };
+  useEffect(() => {
+    host?.send({ type: 'viewport', viewport: { camera, ...canvasSize } });
+  }, [host, camera, canvasSize]);
 
-  // Canvas drawing logic
   useEffect(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
+    host?.send({ type: 'settings', settings });
+  }, [host, settings]);
+
+  useEffect(() => {
+    host?.send({
+      type: 'text',
+      text: textInput
+        ? { value: textInput.value, position: textInput, fontSize: currentFontSize, color: currentColor }
+        : null,
+    });
+  }, [host, textInput, currentFontSize, currentColor]);
 
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+  useEffect(() => {
+    host?.send({ type: 'cursors', cursors: Object.values(remoteCursors), now });
+  }, [host, remoteCursors, now]);
 
-    // Clear canvas
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
+  // The layers panel is the only view of every element, so they are sent
+  // over only while it is open
+  useEffect(() => {
+    host?.send({ type: 'layers', watch: showLayers });
+  }, [host, showLayers]);
 
-    // Apply zoom and pan
-    ctx.save();
-    ctx.scale(state.zoom, state.zoom);
-    ctx.translate(state.pan.x, state.pan.y);
+  const sendCommand = (command: SessionCommand) => hostRef.current?.send({ type: 'command', command });
 
-    // Draw all elements
-    state.elements.forEach(element => {
-      drawElement(ctx, element);
+  // Socket.IO event handlers
+  useEffect(() => {
+    if (!socket) return;
+
+    socket.emit('join-board', roomId);
+    socket.emit('whiteboard-sync-request', { boardId: roomId, request: { clientId } });
+
+    socket.on('whiteboard-op', (op: WhiteboardOp) => {
+      if (op.clientId === clientId) return;
+      hostRef.current?.send({ type: 'ops', ops: [op] });
     });
 
-    // Draw current element being created
-    if (currentElement) {
-      drawElement(ctx, currentElement);
-    }
+    socket.on('whiteboard-sync-request', async (request: BoardSyncRequest) => {
+      if (request.clientId === clientId || !hostRef.current) return;
+      const doc = await hostRef.current.query({ type: 'document' });
+      if (Object.keys(doc.records).length === 0 && !doc.clearedAt) return;
+      socket.emit('whiteboard-sync', { boardId: roomId, snapshot: { to: request.clientId, doc } });
+    });
 
-    // Draw text input preview
-    if (textInput) {
-      ctx.font = `${currentFontSize}px Arial`;
-      ctx.fillStyle = currentColor;
-      ctx.fillText(textInput.value, textInput.x, textInput.y);
-    }
+    socket.on('whiteboard-sync', ({ to, doc }: BoardSnapshot) => {
+      if (to !== clientId) return;
+      hostRef.current?.send({ type: 'merge', doc });
+    });
 
-    ctx.restore();
-  }, [state.elements, state.zoom, state.pan, currentElement, textInput, currentFontSize, currentColor]);
-
-  const drawElement = (ctx: CanvasRenderingContext2D, element: WhiteboardElement) => {
-    ctx.strokeStyle = element.color;
-    ctx.lineWidth = element.strokeWidth;
-    ctx.lineCap = 'round';
-    ctx.lineJoin = 'round';
-
-    switch (element.type) {
-      case 'freehand':
-        if (element.points.length > 1) {
-          ctx.beginPath();
-          ctx.moveTo(element.points[0].x, element.points[0].y);
-          for (let i = 1; i < element.points.length; i++) {
-            ctx.lineTo(element.points[i].x, element.points[i].y);
-          }
-          ctx.stroke();
-        }
-        break;
+    socket.on('cursor-move', (cursor: Omit<RemoteCursor, 'lastSeen'>) => {
+      if (cursor.id === socket.id) return;
+      setRemoteCursors(prev => ({ ...prev, [cursor.id]: { ...cursor, lastSeen: Date.now() } }));
+    });
 
-      case 'rect':
-        if (element.points.length === 2) {
-          const [start, end] = element.points;
-          ctx.strokeRect(start.x, start.y, end.x - start.x, end.y - start.y);
-        }
-        break;
-
-      case 'circle':
-        if (element.points.length === 2) {
-          const [start, end] = element.points;
-          const radius = Math.sqrt(Math.pow(end.x - start.x, 2) + Math.pow(end.y - start.y, 2));
-          ctx.beginPath();
-          ctx.arc(start.x, start.y, radius, 0, 2 * Math.PI);
-          ctx.stroke();
-        }
-        break;
+    socket.on('cursor-leave', ({ id }: { id: string }) => {
+      setRemoteCursors(prev => {
+        const { [id]: _removed, ...rest } = prev;
+        return rest;
+      });
+    });
 
-      case 'arrow':
-        if (element.points.length === 2) {
-          const [start, end] = element.points;
-          drawArrow(ctx, start, end);
-        }
-        break;
+    return () => {
+      socket.off('whiteboard-op');
+      socket.off('whiteboard-sync-request');
+      socket.off('whiteboard-sync');
+      socket.off('cursor-move');
+      socket.off('cursor-leave');
+    };
+  }, [socket, roomId, clientId]);
 
-      case 'text':
-        if (element.points.length > 0 && element.text) {
-          ctx.font = `${element.fontSize || 16}px Arial`;
-          ctx.fillStyle = element.color;
-          ctx.fillText(element.text, element.points[0].x, element.points[0].y);
-        }
-        break;
-    }
-  };
+  // Broadcast our own pointer in world coordinates, throttled
+  const emitCursor = useMemo(
+    () =>
+      throttle((position: Point) => {
+        socket?.emit('cursor-move', { boardId: roomId, cursor: { id: socket.id, name: userName, position } });
+      }, CURSOR_THROTTLE_MS),
+    [socket, roomId, userName]
+  );
 
-  const drawArrow = (ctx: CanvasRenderingContext2D, start: Point, end: Point) => {
-    const headLength = 10;
-    const angle = Math.atan2(end.y - start.y, end.x - start.x);
-
-    // Draw line
-    ctx.beginPath();
-    ctx.moveTo(start.x, start.y);
-    ctx.lineTo(end.x, end.y);
-    ctx.stroke();
-
-    // Draw arrowhead
-    ctx.beginPath();
-    ctx.moveTo(end.x, end.y);
-    ctx.lineTo(
-      end.x - headLength * Math.cos(angle - Math.PI / 6),
-      end.y - headLength * Math.sin(angle - Math.PI / 6)
-    );
-    ctx.moveTo(end.x, end.y);
-    ctx.lineTo(
-      end.x - headLength * Math.cos(angle + Math.PI / 6),
-      end.y - headLength * Math.sin(angle + Math.PI / 6)
-    );
-    ctx.stroke();
-  };
+  useEffect(() => () => emitCursor.cancel(), [emitCursor]);
+
+  // Tick while remote cursors are shown so idle ones fade and stale ones
+  // expire; every frame during a fade, otherwise only when one is due
+  useEffect(() => {
+    const cursors = Object.values(remoteCursors);
+    if (cursors.length === 0) return;
+    const timeout = setTimeout(() => {
+      const current = Date.now();
+      setNow(current);
+      setRemoteCursors(prev => {
+        const alive = Object.values(prev).filter(cursor => current - cursor.lastSeen < CURSOR_EXPIRE_MS);
+        if (alive.length === Object.keys(prev).length) return prev;
+        return Object.fromEntries(alive.map(cursor => [cursor.id, cursor]));
+      });
+    }, getCursorTickDelay(cursors, Date.now()));
+    return () => clearTimeout(timeout);
+  }, [remoteCursors, now]);
 
-  const getMousePos = (e: React.MouseEvent<HTMLCanvasElement>): Point => {
+  const moveCamera = (next: Camera) => setCamera({ zoom: clampZoom(next.zoom), pan: next.pan });
+
+  // Pointer position relative to the canvas, in screen pixels
+  const getScreenPos = (e: { clientX: number; clientY: number }): Point => {
     const canvas = canvasRef.current;
     if (!canvas) return { x: 0, y: 0 };
 
     const rect = canvas.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const getPointerPos = (e: { clientX: number; clientY: number }): Point => screenToWorld(camera, getScreenPos(e));
+
+  // World position carrying the stylus pressure for pen input
+  const getStrokePoint = (e: PointerEvent | React.PointerEvent): Point => {
+    const point = getPointerPos(e);
+    return e.pointerType === 'pen' ? { ...point, pressure: e.pressure } : point;
+  };
+
+  const getPinchGesture = (from: Camera): PinchGesture => {
+    const [a, b] = Array.from(touchesRef.current.values());
     return {
-      x: (e.clientX - rect.left - state.pan.x * state.zoom) / state.zoom,
-      y: (e.clientY - rect.top - state.pan.y * state.zoom) / state.zoom,
+      camera: from,
+      center: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 },
+      distance: Math.max(Math.hypot(b.x - a.x, b.y - a.y), 1),
     };
   };
 
-  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    const point = getMousePos(e);
-
-    // Eraser: remove element under cursor
-    if (currentTool === 'eraser') {
-      const hitElement = state.elements.findLast(el => {
-        if (el.type === 'freehand') {
-          return el.points.some(p => Math.hypot(p.x - point.x, p.y - point.y) < 10);
-        } else if (el.points.length > 0) {
-          // Simple bbox hit test
-          const minX = Math.min(...el.points.map(p => p.x));
-          const maxX = Math.max(...el.points.map(p => p.x));
-          const minY = Math.min(...el.points.map(p => p.y));
-          const maxY = Math.max(...el.points.map(p => p.y));
-          return point.x >= minX && point.x <= maxX && point.y >= minY && point.y <= maxY;
-        }
-        return false;
-      });
-      if (hitElement) {
-        dispatch({ type: 'DELETE_ELEMENTS', ids: [hitElement.id] });
-        setTimeout(() => emitWhiteboardUpdate(), 0);
+  // Drops whatever the primary pointer was doing without committing it
+  const cancelInteraction = () => {
+    primaryPointerRef.current = null;
+    setPanDrag(null);
+    hostRef.current?.send({ type: 'pointer', pointer: { phase: 'cancel', points: [], shiftKey: false } });
+  };
+
+  const sendPointer = (phase: 'down' | 'move' | 'up' | 'double', points: Point[], shiftKey: boolean) => {
+    hostRef.current?.send({ type: 'pointer', pointer: { phase, points, shiftKey } });
+  };
+
+  // Center of the visible part of the canvas, in screen pixels
+  const getViewportCenter = (): Point => ({ x: canvasSize.width / 2, y: canvasSize.height / 2 });
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    // Right button is handled by the context menu
+    if (e.button === 2) return;
+
+    if (e.pointerType === 'pen') {
+      lastPenTimeRef.current = Date.now();
+    } else if (e.pointerType === 'touch') {
+      // Palm rejection: a resting hand must not draw while the pen is in use
+      if (Date.now() - lastPenTimeRef.current < PALM_REJECTION_MS) return;
+      touchesRef.current.set(e.pointerId, getScreenPos(e));
+      e.currentTarget.setPointerCapture(e.pointerId);
+
+      // A second finger turns the gesture into pan/pinch
+      if (touchesRef.current.size === 2) {
+        cancelInteraction();
+        pinchRef.current = getPinchGesture(camera);
+        return;
       }
+      if (touchesRef.current.size > 2 || pinchRef.current) return;
+    }
+
+    // Ignore extra pointers while one is already drawing
+    if (primaryPointerRef.current !== null) return;
+    primaryPointerRef.current = e.pointerId;
+    e.currentTarget.setPointerCapture(e.pointerId);
+
+    // Pan: pan tool, middle button or space held
+    if (currentTool === 'pan' || e.button === 1 || spaceHeld) {
+      e.preventDefault();
+      setPanDrag(getScreenPos(e));
       return;
     }
 
     // Text: place text input
     if (currentTool === 'text') {
+      const point = getPointerPos(e);
       setTextInput({ x: point.x, y: point.y, value: '' });
       return;
     }
 
-    setIsDrawing(true);
-    setStartPoint(point);
-
-    if (currentTool === 'freehand') {
-      const newElement: WhiteboardElement = {
-        id: Date.now().toString(),
-        type: currentTool,
-        points: [point],
-        color: currentColor,
-        strokeWidth: currentStroke,
-      };
-      setCurrentElement(newElement);
-    } else if (['rect', 'circle', 'arrow'].includes(currentTool)) {
-      const newElement: WhiteboardElement = {
-        id: Date.now().toString(),
-        type: currentTool,
-        points: [point],
-        color: currentColor,
-        strokeWidth: currentStroke,
-      };
-      setCurrentElement(newElement);
+    // Selecting, erasing and drawing happen in the host
+    sendPointer('down', [getStrokePoint(e)], e.shiftKey);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.pointerType === 'pen') lastPenTimeRef.current = Date.now();
+
+    if (touchesRef.current.has(e.pointerId)) {
+      touchesRef.current.set(e.pointerId, getScreenPos(e));
+      const pinch = pinchRef.current;
+      if (pinch && touchesRef.current.size >= 2) {
+        // Pan by how far the midpoint moved, then zoom around the midpoint
+        const current = getPinchGesture(pinch.camera);
+        const panned = panCamera(pinch.camera, current.center.x - pinch.center.x, current.center.y - pinch.center.y);
+        const zoom = pinch.camera.zoom * (current.distance / pinch.distance);
+        moveCamera(zoomCameraAt(panned, zoom, current.center));
+        return;
+      }
+    }
+
+    if (primaryPointerRef.current !== null && e.pointerId !== primaryPointerRef.current) return;
+
+    emitCursor(getPointerPos(e));
+
+    if (panDrag) {
+      const screen = getScreenPos(e);
+      moveCamera(panCamera(camera, screen.x - panDrag.x, screen.y - panDrag.y));
+      setPanDrag(screen);
+      return;
     }
+
+    // Coalesced events keep fast pen strokes smooth
+    const events = e.nativeEvent.getCoalescedEvents?.() ?? [];
+    sendPointer('move', events.length > 0 ? events.map(getStrokePoint) : [getStrokePoint(e)], e.shiftKey);
   };
 
-  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    if (!isDrawing || !currentElement) return;
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (touchesRef.current.delete(e.pointerId) && pinchRef.current) {
+      // Lifting a finger ends the gesture; the remaining one does not draw
+      if (touchesRef.current.size < 2) pinchRef.current = null;
+      return;
+    }
+    if (e.pointerId !== primaryPointerRef.current) return;
+    primaryPointerRef.current = null;
+    if (panDrag) {
+      setPanDrag(null);
+      return;
+    }
+    sendPointer('up', [getStrokePoint(e)], e.shiftKey);
+  };
 
-    const point = getMousePos(e);
+  const handlePointerCancel = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    touchesRef.current.delete(e.pointerId);
+    if (touchesRef.current.size < 2) pinchRef.current = null;
+    if (e.pointerId === primaryPointerRef.current) cancelInteraction();
+  };
 
-    if (currentTool === 'freehand') {
-      setCurrentElement({
-        ...currentElement,
-        points: [...currentElement.points, point],
-      });
-    } else if (['rect', 'circle', 'arrow'].includes(currentTool)) {
-      setCurrentElement({
-        ...currentElement,
-        points: [currentElement.points[0], point],
-      });
+  // Captured pointers keep their interaction when they leave the canvas;
+  // this only hides our cursor from other users
+  const handlePointerLeave = () => {
+    hostRef.current?.send({ type: 'pointer', pointer: { phase: 'leave', points: [], shiftKey: false } });
+    emitCursor.cancel();
+    socket?.emit('cursor-leave', { boardId: roomId, id: socket.id });
+  };
+
+  // Double-click enters the group under the pointer
+  const handleDoubleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    sendPointer('double', [getPointerPos(e)], e.shiftKey);
+  };
+
+  const handleGroup = () => sendCommand({ type: 'group' });
+
+  const handleUngroup = () => sendCommand({ type: 'ungroup' });
+
+  const handleZOrder = (command: ZOrderCommand) => sendCommand({ type: 'z-order', command });
+
+  const handleLayerMove = (id: string, index: number) => sendCommand({ type: 'move-layer', id, index });
+
+  const handleLayerSelect = (id: string, additive: boolean) => {
+    setCurrentTool(TOOLS.SELECT);
+    sendCommand({ type: 'select-layer', id, additive });
+  };
+
+  const handleToggleHidden = (element: WhiteboardElement) => {
+    sendCommand({ type: 'update', id: element.id, updates: { hidden: !element.hidden } });
+  };
+
+  const handleToggleLocked = (element: WhiteboardElement) => {
+    sendCommand({ type: 'update', id: element.id, updates: { locked: !element.locked } });
+  };
+
+  // Locks the whole selection, or unlocks it if every element is already locked
+  const handleToggleSelectionLocked = () => sendCommand({ type: 'toggle-locked' });
+
+  const handleHideSelection = () => sendCommand({ type: 'hide-selection' });
+
+  const handleDeleteSelection = () => sendCommand({ type: 'delete-selection' });
+
+  // Right-clicking an element selects it (with its group) for the context
+  // menu. The menu opens right away and fills in once the host answers.
+  const handleContextMenu = async (e: React.MouseEvent<HTMLCanvasElement>) => {
+    setContextTargets([]);
+    if (!hostRef.current) return;
+    const targets = await hostRef.current.query({ type: 'context', point: getPointerPos(e) });
+    if (targets.length > 0) setCurrentTool(TOOLS.SELECT);
+    setContextTargets(targets);
+  };
+
+  // Undo/redo replay the inverse ops recorded for this user's own changes
+  const handleUndo = () => sendCommand({ type: 'undo' });
+
+  const handleRedo = () => sendCommand({ type: 'redo' });
+
+  // Adds copies of elements on top of the board and selects them
+  const insertElements = (elements: WhiteboardElement[]) => {
+    if (elements.length === 0) return;
+    sendCommand({ type: 'insert', elements, select: true });
+    setCurrentTool(TOOLS.SELECT);
+  };
+
+  const handleCopy = async (cut: boolean) => {
+    if (selectedElements.length === 0) return;
+    pasteOffsetRef.current = { key: serializeClipboard(selectedElements), count: cut ? 0 : 1 };
+    const copied = await writeElementsToClipboard(selectedElements);
+    if (!copied) {
+      toast.error('Could not access the clipboard');
+      return;
     }
+    if (cut) handleDeleteSelection();
+  };
+
+  const handleDuplicate = () => {
+    insertElements(cloneElements(selectedElements, PASTE_OFFSET));
   };
 
-  const handleMouseUp = () => {
-    if (currentElement) {
-      dispatch({ type: 'ADD_ELEMENT', element: currentElement });
-      setCurrentElement(null);
-      // Emit update after state is actually updated (next tick)
-      setTimeout(() => emitWhiteboardUpdate(), 0);
+  useEffect(() => {
+    const handlePaste = async (e: ClipboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return;
+
+      // The event's data is only readable while it is dispatched
+      const fromEvent = readClipboardEvent(e.clipboardData);
+      if (!fromEvent && !navigator.clipboard?.read) return;
+      e.preventDefault();
+      const elements = (await readElementsFromClipboard()) ?? fromEvent;
+      if (!elements) return;
+
+      const key = serializeClipboard(elements);
+      const offsets = pasteOffsetRef.current;
+      const count = offsets.key === key ? offsets.count : 0;
+      pasteOffsetRef.current = { key, count: count + 1 };
+      insertElements(cloneElements(elements, count * PASTE_OFFSET));
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  });
+
+  // Keyboard shortcuts
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return;
+
+      if ((e.key === 'Delete' || e.key === 'Backspace') && selectedElements.length > 0) {
+        e.preventDefault();
+        handleDeleteSelection();
+        return;
+      }
+      if (e.key === 'Escape') {
+        sendCommand({ type: 'escape' });
+        return;
+      }
+      if (!(e.ctrlKey || e.metaKey)) return;
+
+      const key = e.key.toLowerCase();
+      if ((key === 'c' || key === 'x') && selectedElements.length > 0) {
+        e.preventDefault();
+        handleCopy(key === 'x');
+      } else if (key === 'd' && selectedElements.length > 0) {
+        e.preventDefault();
+        handleDuplicate();
+      } else if (e.code === 'BracketRight' || e.code === 'BracketLeft') {
+        e.preventDefault();
+        const up = e.code === 'BracketRight';
+        handleZOrder(e.shiftKey ? (up ? 'front' : 'back') : up ? 'forward' : 'backward');
+      } else if (key === 'g') {
+        e.preventDefault();
+        if (e.shiftKey) {
+          handleUngroup();
+        } else {
+          handleGroup();
+        }
+      } else if (key === 'a') {
+        e.preventDefault();
+        setCurrentTool(TOOLS.SELECT);
+        sendCommand({ type: 'select-all' });
+      } else if (key === '=' || key === '+') {
+        e.preventDefault();
+        handleZoomIn();
+      } else if (key === '-') {
+        e.preventDefault();
+        handleZoomOut();
+      } else if (key === '0') {
+        e.preventDefault();
+        handleZoomReset();
+      } else if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // Color and stroke pickers restyle the current selection as one step
+  const handleColorChange = (color: string) => {
+    setCurrentColor(color);
+    if (currentTool !== 'select' || selectedElements.length === 0) return;
+    sendCommand({ type: 'restyle', updates: { color } });
+  };
+
+  const handleStrokeChange = (strokeWidth: number) => {
+    setCurrentStroke(strokeWidth);
+    if (currentTool !== 'select' || selectedElements.length === 0) return;
+    sendCommand({ type: 'restyle', updates: { strokeWidth } });
+  };
+
+  const handleClear = () => sendCommand({ type: 'clear' });
+
+  const handleSaveAs = async () => {
+    try {
+      if (!hostRef.current) return;
+      if (await saveBoardFile(await hostRef.current.query({ type: 'elements' }))) toast.success('Board saved');
+    } catch {
+      toast.error('Could not save the board');
     }
-    setIsDrawing(false);
-    setStartPoint(null);
   };
 
-  const handleUndo = () => {
-    dispatch({ type: 'UNDO' });
-    emitWhiteboardUpdate();
+  // An opened file replaces the board as one undoable step. Its elements get
+  // fresh ids so opening the same file twice never revives cleared records.
+  const handleOpenFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const result = parseBoardFile(await file.text());
+    // Compared explicitly: without strictNullChecks `!result.ok` does not narrow
+    if (result.ok === false) {
+      toast.error(result.error);
+      return;
+    }
+    sendCommand({ type: 'replace', elements: cloneElements(result.file.elements, 0) });
+    if (result.migratedFrom !== null) {
+      toast.success(`Opened ${file.name}, upgraded from format version ${result.migratedFrom}`);
+    }
   };
 
-  const handleRedo = () => {
-    dispatch({ type: 'REDO' });
-    emitWhiteboardUpdate();
+  // Imported drawings are added on top of the board and selected
+  const importExcalidrawFile = (name: string, text: string) => {
+    const result = importExcalidraw(text);
+    if (result.ok === false) {
+      toast.error(result.error);
+      return;
+    }
+    const unsupported = describeSkipped(result.skipped);
+    const invalid = describeSkipped(result.invalid);
+    const missing = [unsupported && `${unsupported} the board cannot show`, invalid && `${invalid} with damaged data`]
+      .filter(Boolean)
+      .join(' and ');
+    if (result.elements.length === 0) {
+      toast.error(missing ? `Nothing to import: the drawing only has ${missing}` : 'The drawing is empty');
+      return;
+    }
+    insertElements(cloneElements(result.elements, 0));
+    if (missing) toast.warning(`Imported ${name} without ${missing}`);
+  };
+
+  // Diagrams arrive as one group in the middle of the view
+  const importDrawioFile = async (name: string, text: string) => {
+    const result = await importDrawio(text, screenToWorld(camera, getViewportCenter()));
+    if (result.ok === false) {
+      toast.error(result.error);
+      return;
+    }
+    if (result.elements.length === 0) {
+      toast.error('The diagram is empty');
+      return;
+    }
+    insertElements(result.elements);
+    if (result.pages > 1) toast(`Imported the first of ${result.pages} pages of ${name}`);
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const text = await file.text();
+    if (isDrawioFile(file.name, text)) {
+      await importDrawioFile(file.name, text);
+    } else {
+      importExcalidrawFile(file.name, text);
+    }
   };
 
-  const handleClear = () => {
-    dispatch({ type: 'CLEAR_ALL' });
-    emitWhiteboardUpdate();
+  // Toolbar and keyboard zoom keep the middle of the viewport in place
+  const zoomTo = (zoom: number, anchor: Point = getViewportCenter()) => {
+    moveCamera(zoomCameraAt(camera, zoom, anchor));
   };
 
+  // What an export of `scope` contains, read from the host
+  const getExportContent = useCallback(
+    (scope: ExportScope) => host?.query({ type: 'export', scope }) ?? Promise.resolve({ elements: [], region: null }),
+    [host]
+  );
+
   const handleZoomIn = () => {
-    dispatch({ type: 'SET_ZOOM', zoom: state.zoom * 1.2 });
+    zoomTo(camera.zoom * ZOOM_STEP);
   };
 
   const handleZoomOut = () => {
-    dispatch({ type: 'SET_ZOOM', zoom: state.zoom / 1.2 });
+    zoomTo(camera.zoom / ZOOM_STEP);
   };
 
+  const handleZoomReset = () => {
+    zoomTo(1);
+  };
+
+  // Wheel zooms around the pointer; trackpad pinches arrive as ctrl+wheel.
+  // Registered natively because React's wheel listener is passive and cannot
+  // stop the browser from zooming the whole page.
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const delta = getWheelDelta(e);
+      const anchor = getScreenPos(e);
+      if (e.ctrlKey || e.metaKey) {
+        zoomTo(camera.zoom * Math.exp(-delta.y * PINCH_ZOOM_SPEED), anchor);
+      } else if (e.shiftKey) {
+        moveCamera(panCamera(camera, -(delta.x || delta.y), 0));
+      } else {
+        zoomTo(camera.zoom * Math.exp(-delta.y * WHEEL_ZOOM_SPEED), anchor);
+      }
+    };
+
+    const handleGestureStart = (e: Event) => {
+      e.preventDefault();
+      gestureZoomRef.current = camera.zoom;
+    };
+
+    const handleGestureChange = (e: Event) => {
+      e.preventDefault();
+      const gesture = e as GestureEvent;
+      zoomTo(gestureZoomRef.current * gesture.scale, getScreenPos(gesture));
+    };
+
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    canvas.addEventListener('gesturestart', handleGestureStart);
+    canvas.addEventListener('gesturechange', handleGestureChange);
+    return () => {
+      canvas.removeEventListener('wheel', handleWheel);
+      canvas.removeEventListener('gesturestart', handleGestureStart);
+      canvas.removeEventListener('gesturechange', handleGestureChange);
+    };
+  });
+
+  // Holding space turns any tool into a temporary pan tool
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (e.code !== 'Space' || target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return;
+      e.preventDefault();
+      setSpaceHeld(true);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code === 'Space') setSpaceHeld(false);
+    };
+    const handleBlur = () => setSpaceHeld(false);
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, []);
+
+  const canvasCursor = panDrag
+    ? 'cursor-grabbing'
+    : currentTool === 'pan' || spaceHeld
+      ? 'cursor-grab'
+      : currentTool === 'select'
+        ? summary.hovering ? 'cursor-move' : 'cursor-default'
+        : currentTool === 'eraser'
+          ? 'cursor-none'
+          : 'cursor-crosshair';
+
   return (
     <div className={`flex flex-col h-full ${className}`}>
       {/* Toolbar */}
@@ -492,12 +861,43 @@ const WhiteboardCanvas: React.FC<WhiteboardCanvasProps> = ({ roomId, socket, cla
           })}
         </div>
 
+        {/* Region selection options */}
+        {currentTool === 'select' && (
+          <div className="flex items-center gap-1 border-r border-gray-200 pr-2">
+            <button
+              onClick={() => setRegionTool('marquee')}
+              className={`p-2 rounded hover:bg-gray-100 ${
+                regionTool === 'marquee' ? 'bg-blue-100 text-blue-600' : ''
+              }`}
+              title="Rectangle selection"
+            >
+              <BoxSelect size={20} />
+            </button>
+            <button
+              onClick={() => setRegionTool('lasso')}
+              className={`p-2 rounded hover:bg-gray-100 ${
+                regionTool === 'lasso' ? 'bg-blue-100 text-blue-600' : ''
+              }`}
+              title="Lasso selection"
+            >
+              <Lasso size={20} />
+            </button>
+            <button
+              onClick={() => setRegionMode(regionMode === 'contain' ? 'intersect' : 'contain')}
+              className="px-2 py-1 rounded text-xs hover:bg-gray-100"
+              title="Pick elements fully enclosed by the region or any that touch it"
+            >
+              {regionMode === 'contain' ? 'Enclosed' : 'Touching'}
+            </button>
+          </div>
+        )}
+
         {/* Colors */}
         <div className="flex items-center gap-1 border-r border-gray-200 pr-2">
           {COLORS.map(color => (
             <button
               key={color}
-              onClick={() => setCurrentColor(color)}
+              onClick={() => handleColorChange(color)}
               className={`w-8 h-8 rounded border-2 ${
                 currentColor === color ? 'border-gray-400' : 'border-gray-200'
               }`}
@@ -506,12 +906,45 @@ const WhiteboardCanvas: React.FC<WhiteboardCanvasProps> = ({ roomId, socket, cla
           ))}
         </div>
 
+        {/* Eraser mode */}
+        {currentTool === 'eraser' && (
+          <div className="flex items-center gap-1 border-r border-gray-200 pr-2">
+            {ERASER_MODES.map(({ mode, label, title }) => (
+              <button
+                key={mode}
+                onClick={() => setEraserMode(mode)}
+                className={`px-2 py-1 rounded text-xs hover:bg-gray-100 ${
+                  eraserMode === mode ? 'bg-blue-100 text-blue-600' : ''
+                }`}
+                title={title}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        )}
+
         {/* Stroke Width */}
         <div className="flex items-center gap-1 border-r border-gray-200 pr-2">
-          {STROKES.map(stroke => (
+          {currentTool === 'eraser' && ERASER_STROKES.map(size => (
+            <button
+              key={size}
+              onClick={() => setEraserSize(size)}
+              className={`p-2 rounded hover:bg-gray-100 ${
+                eraserSize === size ? 'bg-blue-100' : ''
+              }`}
+              title={`Eraser size ${size}`}
+            >
+              <div
+                className="rounded-full border border-gray-500"
+                style={{ width: size * 0.75, height: size * 0.75 }}
+              />
+            </button>
+          ))}
+          {currentTool !== 'eraser' && STROKES.map(stroke => (
             <button
               key={stroke}
-              onClick={() => setCurrentStroke(stroke)}
+              onClick={() => handleStrokeChange(stroke)}
               className={`p-2 rounded hover:bg-gray-100 ${
                 currentStroke === stroke ? 'bg-blue-100' : ''
               }`}
@@ -524,33 +957,116 @@ const WhiteboardCanvas: React.FC<WhiteboardCanvasProps> = ({ roomId, socket, cla
           ))}
         </div>
 
+        {/* Z-order */}
+        {currentTool === 'select' && selectedElements.length > 0 && (
+          <div className="flex items-center gap-1 border-r border-gray-200 pr-2">
+            <button onClick={() => handleZOrder('front')} className="p-2 rounded hover:bg-gray-100" title="Bring to front">
+              <BringToFront size={20} />
+            </button>
+            <button onClick={() => handleZOrder('forward')} className="p-2 rounded hover:bg-gray-100" title="Bring forward">
+              <ChevronUp size={20} />
+            </button>
+            <button onClick={() => handleZOrder('backward')} className="p-2 rounded hover:bg-gray-100" title="Send backward">
+              <ChevronDown size={20} />
+            </button>
+            <button onClick={() => handleZOrder('back')} className="p-2 rounded hover:bg-gray-100" title="Send to back">
+              <SendToBack size={20} />
+            </button>
+            <button
+              onClick={handleToggleSelectionLocked}
+              className={`p-2 rounded hover:bg-gray-100 ${selectionLocked ? 'bg-amber-100 text-amber-700' : ''}`}
+              title={selectionLocked ? 'Unlock' : 'Lock'}
+            >
+              {selectionLocked ? <Lock size={20} /> : <LockOpen size={20} />}
+            </button>
+          </div>
+        )}
+
         {/* Actions */}
         <div className="flex items-center gap-1">
           <button
             onClick={handleUndo}
             className="p-2 rounded hover:bg-gray-100"
-            disabled={state.historyIndex <= 0}
+            disabled={!summary.canUndo}
           >
             <Undo size={20} />
           </button>
           <button
             onClick={handleRedo}
             className="p-2 rounded hover:bg-gray-100"
-            disabled={state.historyIndex >= state.history.length - 1}
+            disabled={!summary.canRedo}
           >
             <Redo size={20} />
           </button>
+          <button
+            onClick={handleZoomOut}
+            className="p-2 rounded hover:bg-gray-100"
+            title="Zoom out"
+          >
+            <ZoomOut size={20} />
+          </button>
+          <button
+            onClick={handleZoomReset}
+            className="w-14 py-1 rounded text-sm font-medium text-center hover:bg-gray-100"
+            title="Reset zoom to 100%"
+          >
+            {Math.round(camera.zoom * 100)}%
+          </button>
           <button
             onClick={handleZoomIn}
             className="p-2 rounded hover:bg-gray-100"
+            title="Zoom in"
           >
             <ZoomIn size={20} />
           </button>
           <button
-            onClick={handleZoomOut}
+            onClick={() => setShowLayers(!showLayers)}
+            className={`p-2 rounded hover:bg-gray-100 ${showLayers ? 'bg-blue-100 text-blue-600' : ''}`}
+            title="Layers"
+          >
+            <Layers size={20} />
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
             className="p-2 rounded hover:bg-gray-100"
+            title="Open board"
           >
-            <ZoomOut size={20} />
+            <FolderOpen size={20} />
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={`${BOARD_FILE_EXTENSION},application/json`}
+            className="hidden"
+            onChange={handleOpenFile}
+          />
+          <button
+            onClick={() => importInputRef.current?.click()}
+            className="p-2 rounded hover:bg-gray-100"
+            title="Import Excalidraw or draw.io file"
+          >
+            <Import size={20} />
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept={[EXCALIDRAW_EXTENSION, ...DRAWIO_EXTENSIONS, 'application/json'].join(',')}
+            className="hidden"
+            onChange={handleImportFile}
+          />
+          <button
+            onClick={handleSaveAs}
+            className="p-2 rounded hover:bg-gray-100"
+            title="Save board as"
+          >
+            <Save size={20} />
+          </button>
+          <button
+            onClick={() => setShowExport(true)}
+            className="p-2 rounded hover:bg-gray-100"
+            title="Export"
+          >
+            <Download size={20} />
           </button>
           <button
             onClick={handleClear}
@@ -561,61 +1077,96 @@ const WhiteboardCanvas: React.FC<WhiteboardCanvasProps> = ({ roomId, socket, cla
         </div>
       </div>
 
-      {/* Canvas */}
-      <div className="flex-1 relative overflow-hidden">
-        <canvas
-          ref={canvasRef}
-          width={1920}
-          height={1080}
-          className="absolute inset-0 cursor-crosshair"
-          onMouseDown={handleMouseDown}
-          onMouseMove={handleMouseMove}
-          onMouseUp={handleMouseUp}
-          onMouseLeave={handleMouseUp}
-        />
-        {textInput && (
-          <input
-            type="text"
-            autoFocus
-            value={textInput.value}
-            onChange={e => setTextInput({ ...textInput, value: e.target.value })}
-            onBlur={() => {
-              if (textInput.value.trim()) {
-                dispatch({
-                  type: 'ADD_ELEMENT',
-                  element: {
-                    id: Date.now().toString(),
-                    type: 'text',
-                    points: [{ x: textInput.x, y: textInput.y }],
-                    color: currentColor,
-                    strokeWidth: 1,
-                    fontSize: currentFontSize,
-                    text: textInput.value,
-                  },
-                });
-                setTimeout(() => emitWhiteboardUpdate(), 0);
-              }
-              setTextInput(null);
-            }}
-            onKeyDown={e => {
-              if (e.key === 'Enter') {
-                (e.target as HTMLInputElement).blur();
-              }
-            }}
-            style={{
-              position: 'absolute',
-              left: textInput.x * state.zoom + state.pan.x,
-              top: textInput.y * state.zoom + state.pan.y,
-              fontSize: currentFontSize,
-              color: currentColor,
-              background: 'rgba(255,255,255,0.8)',
-              border: '1px solid #ccc',
-              padding: '2px 4px',
-              zIndex: 10,
-            }}
+      <div className="flex-1 flex min-h-0">
+        {/* Canvas */}
+        <div ref={containerRef} className="flex-1 relative overflow-hidden">
+          <div ref={layersRef} className="absolute inset-0 pointer-events-none" />
+          <ElementContextMenu
+            targets={contextTargets}
+            onToggleLocked={handleToggleSelectionLocked}
+            onHide={handleHideSelection}
+            onBringToFront={() => handleZOrder('front')}
+            onSendToBack={() => handleZOrder('back')}
+            onDuplicate={handleDuplicate}
+            onDelete={handleDeleteSelection}
+          >
+            <canvas
+              ref={canvasRef}
+              style={{ width: canvasSize.width, height: canvasSize.height }}
+              className={`absolute inset-0 touch-none ${canvasCursor}`}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerCancel}
+              onPointerLeave={handlePointerLeave}
+              onDoubleClick={handleDoubleClick}
+              onContextMenu={handleContextMenu}
+            />
+          </ElementContextMenu>
+          {textInput && (
+            <input
+              type="text"
+              autoFocus
+              value={textInput.value}
+              onChange={e => setTextInput({ ...textInput, value: e.target.value })}
+              onBlur={() => {
+                if (textInput.value.trim()) {
+                  sendCommand({
+                    type: 'insert',
+                    elements: [{
+                      id: createId(),
+                      type: 'text',
+                      points: [{ x: textInput.x, y: textInput.y }],
+                      color: currentColor,
+                      strokeWidth: 1,
+                      fontSize: currentFontSize,
+                      text: textInput.value,
+                    }],
+                    select: false,
+                  });
+                }
+                setTextInput(null);
+              }}
+              onKeyDown={e => {
+                if (e.key === 'Enter') {
+                  (e.target as HTMLInputElement).blur();
+                }
+              }}
+              style={{
+                position: 'absolute',
+                left: worldToScreen(camera, textInput).x,
+                top: worldToScreen(camera, textInput).y,
+                fontSize: currentFontSize * camera.zoom,
+                color: currentColor,
+                background: 'rgba(255,255,255,0.8)',
+                border: '1px solid #ccc',
+                padding: '2px 4px',
+                zIndex: 10,
+              }}
+            />
+          )}
+        </div>
+
+        {/* Layers */}
+        {showLayers && (
+          <LayersPanel
+            elements={summary.layers ?? []}
+            selectedIds={selectedIds}
+            onSelect={handleLayerSelect}
+            onToggleHidden={handleToggleHidden}
+            onToggleLocked={handleToggleLocked}
+            onMove={handleLayerMove}
+            onClose={() => setShowLayers(false)}
           />
         )}
       </div>
+
+      <ExportDialog
+        open={showExport}
+        onOpenChange={setShowExport}
+        hasSelection={selectedElements.length > 0}
+        getContent={getExportContent}
+      />
     </div>
   );
 };
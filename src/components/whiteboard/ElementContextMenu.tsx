@@ -0,0 +1,78 @@
+import React from 'react';
+import { BringToFront, Copy, EyeOff, Lock, LockOpen, SendToBack, Trash2 } from 'lucide-react';
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuShortcut,
+  ContextMenuTrigger,
+} from '@/components/ui/context-menu';
+import { WhiteboardElement } from '@/lib/whiteboard/types';
+
+interface ElementContextMenuProps {
+  // Elements the menu acts on; empty when right-clicking the background.
+  targets: WhiteboardElement[];
+  onToggleLocked: () => void;
+  onHide: () => void;
+  onBringToFront: () => void;
+  onSendToBack: () => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+  children: React.ReactNode;
+}
+
+const ElementContextMenu: React.FC<ElementContextMenuProps> = ({
+  targets,
+  onToggleLocked,
+  onHide,
+  onBringToFront,
+  onSendToBack,
+  onDuplicate,
+  onDelete,
+  children,
+}) => {
+  const locked = targets.length > 0 && targets.every(el => el.locked);
+
+  return (
+    <ContextMenu>
+      <ContextMenuTrigger asChild>{children}</ContextMenuTrigger>
+      {targets.length > 0 && (
+        <ContextMenuContent className="w-52">
+          <ContextMenuItem onSelect={onToggleLocked}>
+            {locked ? <LockOpen size={14} className="mr-2" /> : <Lock size={14} className="mr-2" />}
+            {locked ? 'Unlock' : 'Lock'}
+          </ContextMenuItem>
+          <ContextMenuItem onSelect={onHide}>
+            <EyeOff size={14} className="mr-2" />
+            Hide
+          </ContextMenuItem>
+          <ContextMenuSeparator />
+          <ContextMenuItem onSelect={onBringToFront}>
+            <BringToFront size={14} className="mr-2" />
+            Bring to front
+            <ContextMenuShortcut>Ctrl+Shift+]</ContextMenuShortcut>
+          </ContextMenuItem>
+          <ContextMenuItem onSelect={onSendToBack}>
+            <SendToBack size={14} className="mr-2" />
+            Send to back
+            <ContextMenuShortcut>Ctrl+Shift+[</ContextMenuShortcut>
+          </ContextMenuItem>
+          <ContextMenuSeparator />
+          <ContextMenuItem onSelect={onDuplicate}>
+            <Copy size={14} className="mr-2" />
+            Duplicate
+            <ContextMenuShortcut>Ctrl+D</ContextMenuShortcut>
+          </ContextMenuItem>
+          <ContextMenuItem onSelect={onDelete} disabled={locked} className="text-red-600">
+            <Trash2 size={14} className="mr-2" />
+            Delete
+            <ContextMenuShortcut>Del</ContextMenuShortcut>
+          </ContextMenuItem>
+        </ContextMenuContent>
+      )}
+    </ContextMenu>
+  );
+};
+
+export default ElementContextMenu;
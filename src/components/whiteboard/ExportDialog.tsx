@@ -0,0 +1,322 @@
+import React, { useEffect, useState } from 'react';
+import { Copy, Download } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  DEFAULT_EXPORT_PADDING,
+  EXPORT_SCALES,
+  ExportContent,
+  ExportFormat,
+  ExportOptions,
+  ExportScope,
+  PdfExportOptions,
+  PdfLayout,
+  downloadBlob,
+  exportPdf,
+  exportPng,
+  exportSvg,
+  getExportFileName,
+  getExportFrames,
+  getPngSize,
+} from '@/lib/whiteboard/export';
+import { writeImageToClipboard } from '@/lib/whiteboard/clipboard';
+import { EXCALIDRAW_MIME, SkippedTypes, describeSkipped, exportExcalidraw } from '@/lib/whiteboard/excalidraw';
+
+const SCOPES: { scope: ExportScope; label: string }[] = [
+  { scope: 'board', label: 'Whole board' },
+  { scope: 'selection', label: 'Selection' },
+  { scope: 'viewport', label: 'Visible area' },
+];
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  hasSelection: boolean;
+  // Elements and world-space area exported for a scope, read from the board
+  getContent: (scope: ExportScope) => Promise<ExportContent>;
+}
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ open, onOpenChange, hasSelection, getContent }) => {
+  const [format, setFormat] = useState<ExportFormat>('png');
+  const [scope, setScope] = useState<ExportScope>('board');
+  const [options, setOptions] = useState<ExportOptions>({
+    scale: 2,
+    background: true,
+    padding: DEFAULT_EXPORT_PADDING,
+  });
+  const [pdf, setPdf] = useState<PdfExportOptions>({ layout: 'frames', header: true, title: '' });
+  const [busy, setBusy] = useState(false);
+  const [loaded, setLoaded] = useState<{ scope: ExportScope; content: ExportContent } | null>(null);
+
+  // Start from the selection when there is one
+  useEffect(() => {
+    if (open) setScope(hasSelection ? 'selection' : 'board');
+  }, [open, hasSelection]);
+
+  // Read whenever the scope changes; answers for an earlier scope are dropped
+  useEffect(() => {
+    if (!open) {
+      setLoaded(null);
+      return;
+    }
+    let current = true;
+    getContent(scope).then(content => {
+      if (current) setLoaded({ scope, content });
+    });
+    return () => {
+      current = false;
+    };
+  }, [open, scope, getContent]);
+
+  const content = open && loaded?.scope === scope ? loaded.content : null;
+
+  const size = content?.region ? getPngSize(content.region, scope, options) : null;
+  const frameCount = content && format === 'pdf' ? getExportFrames(content.elements).length : 0;
+  const pageCount = pdf.layout === 'frames' ? Math.max(frameCount, 1) : 1;
+
+  const describeOutput = () => {
+    if (!size) return 'Nothing to export';
+    if (format === 'svg') return 'Vector output, sharp at any size';
+    if (format === 'excalidraw') return `${content.elements.length} elements, editable in Excalidraw`;
+    if (format === 'pdf') {
+      const pages = `${pageCount} A4 ${pageCount === 1 ? 'page' : 'pages'}`;
+      return pdf.layout === 'frames' && frameCount === 0 ? `${pages} (no frames found)` : pages;
+    }
+    return `${size.width} × ${size.height} px${size.scale < options.scale ? ' (scaled down to fit)' : ''}`;
+  };
+
+  const reportSkipped = (skipped: SkippedTypes) => {
+    const summary = describeSkipped(skipped);
+    if (summary) toast.warning(`Left out ${summary}, which Excalidraw cannot show`);
+  };
+
+  const createBlob = async (): Promise<Blob> => {
+    switch (format) {
+      case 'svg':
+        return new Blob([exportSvg(content, scope, options)], { type: 'image/svg+xml' });
+      case 'pdf':
+        return exportPdf(content, scope, options, pdf);
+      case 'excalidraw': {
+        const { json, skipped } = exportExcalidraw(content.elements);
+        reportSkipped(skipped);
+        return new Blob([json], { type: EXCALIDRAW_MIME });
+      }
+      default:
+        return exportPng(content, scope, options);
+    }
+  };
+
+  const handleDownload = async () => {
+    if (!content) return;
+    setBusy(true);
+    try {
+      downloadBlob(await createBlob(), `${getExportFileName()}.${format}`);
+      onOpenChange(false);
+    } catch {
+      toast.error('Could not export the board');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!content) return;
+    if (format === 'svg' || format === 'excalidraw') {
+      // Vector formats go to the clipboard as text, which editors, docs and
+      // Excalidraw itself accept when pasted
+      const label = format === 'svg' ? 'SVG' : 'Excalidraw drawing';
+      try {
+        if (format === 'svg') {
+          await navigator.clipboard.writeText(exportSvg(content, scope, options));
+        } else {
+          const { json, skipped } = exportExcalidraw(content.elements, { clipboard: true });
+          await navigator.clipboard.writeText(json);
+          reportSkipped(skipped);
+        }
+        toast.success(`${label} copied to clipboard`);
+        onOpenChange(false);
+      } catch {
+        toast.error(`Could not copy the ${label}`);
+      }
+      return;
+    }
+    setBusy(true);
+    // The image is handed over still rendering, so the clipboard write starts
+    // within the click as Safari requires
+    const copied = await writeImageToClipboard(exportPng(content, scope, options));
+    setBusy(false);
+    if (copied) {
+      toast.success('Image copied to clipboard');
+      onOpenChange(false);
+    } else {
+      toast.error('Could not copy the image');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export</DialogTitle>
+          <DialogDescription>
+            Render the board to a PNG, a vector SVG or a PDF handout, independent of the current zoom, or
+            save it as an Excalidraw drawing.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4">
+          <div className="grid gap-2">
+            <Label>Format</Label>
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              className="justify-start"
+              value={format}
+              onValueChange={value => value && setFormat(value as ExportFormat)}
+            >
+              <ToggleGroupItem value="png">PNG</ToggleGroupItem>
+              <ToggleGroupItem value="svg">SVG</ToggleGroupItem>
+              <ToggleGroupItem value="pdf">PDF</ToggleGroupItem>
+              <ToggleGroupItem value="excalidraw">Excalidraw</ToggleGroupItem>
+            </ToggleGroup>
+          </div>
+
+          <div className="grid gap-2">
+            <Label>Area</Label>
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              className="justify-start"
+              value={scope}
+              onValueChange={value => value && setScope(value as ExportScope)}
+            >
+              {SCOPES.map(({ scope: value, label }) => (
+                <ToggleGroupItem key={value} value={value} disabled={value === 'selection' && !hasSelection}>
+                  {label}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+
+          <div className="grid gap-2">
+            <Label>Scale</Label>
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              className="justify-start"
+              value={String(options.scale)}
+              onValueChange={value => value && setOptions({ ...options, scale: Number(value) })}
+            >
+              {EXPORT_SCALES.map(scale => (
+                <ToggleGroupItem key={scale} value={String(scale)} disabled={format !== 'png'}>
+                  {scale}x
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+
+          <div className="grid gap-2">
+            <Label>Background</Label>
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              className="justify-start"
+              value={options.background || format === 'pdf' ? 'white' : 'transparent'}
+              disabled={format === 'excalidraw'}
+              onValueChange={value => value && setOptions({ ...options, background: value === 'white' })}
+            >
+              <ToggleGroupItem value="white">White</ToggleGroupItem>
+              <ToggleGroupItem value="transparent" disabled={format === 'pdf'}>
+                Transparent
+              </ToggleGroupItem>
+            </ToggleGroup>
+          </div>
+
+          {format === 'pdf' && (
+            <>
+              <div className="grid gap-2">
+                <Label>Pages</Label>
+                <ToggleGroup
+                  type="single"
+                  variant="outline"
+                  className="justify-start"
+                  value={pdf.layout}
+                  onValueChange={value => value && setPdf({ ...pdf, layout: value as PdfLayout })}
+                >
+                  <ToggleGroupItem value="frames">One per frame</ToggleGroupItem>
+                  <ToggleGroupItem value="single">Fit to one page</ToggleGroupItem>
+                </ToggleGroup>
+              </div>
+
+              <div className="grid gap-2">
+                <Label htmlFor="export-title">Header</Label>
+                <div className="flex items-center gap-2">
+                  <ToggleGroup
+                    type="single"
+                    variant="outline"
+                    value={pdf.header ? 'on' : 'off'}
+                    onValueChange={value => value && setPdf({ ...pdf, header: value === 'on' })}
+                  >
+                    <ToggleGroupItem value="on">Title and date</ToggleGroupItem>
+                    <ToggleGroupItem value="off">None</ToggleGroupItem>
+                  </ToggleGroup>
+                  <Input
+                    id="export-title"
+                    placeholder="Title"
+                    value={pdf.title}
+                    disabled={!pdf.header}
+                    onChange={e => setPdf({ ...pdf, title: e.target.value })}
+                  />
+                </div>
+              </div>
+            </>
+          )}
+
+          <div className="grid gap-2">
+            <Label htmlFor="export-padding">Padding</Label>
+            <Input
+              id="export-padding"
+              type="number"
+              min={0}
+              max={200}
+              className="w-24"
+              value={options.padding}
+              disabled={
+                scope === 'viewport' ||
+                format === 'excalidraw' ||
+                (format === 'pdf' && pdf.layout === 'frames' && frameCount > 0)
+              }
+              onChange={e => setOptions({ ...options, padding: Math.max(0, Number(e.target.value) || 0) })}
+            />
+          </div>
+
+          <p className="text-sm text-muted-foreground">{describeOutput()}</p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleCopy} disabled={!size || busy || format === 'pdf'}>
+            <Copy />
+            Copy
+          </Button>
+          <Button onClick={handleDownload} disabled={!size || busy}>
+            <Download />
+            Download
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ExportDialog;
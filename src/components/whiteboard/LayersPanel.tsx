@@ -0,0 +1,172 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ArrowUpRight, Circle, Eraser, Eye, EyeOff, Lock, LockOpen, Pencil, Square, Type, X } from 'lucide-react';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { WhiteboardElement } from '@/lib/whiteboard/types';
+import { getRotatedBounds } from '@/lib/whiteboard/geometry';
+import { drawElement } from '@/lib/whiteboard/render';
+
+const THUMBNAIL_SIZE = 32;
+
+const TYPE_ICONS = {
+  freehand: Pencil,
+  rect: Square,
+  circle: Circle,
+  arrow: ArrowUpRight,
+  text: Type,
+  eraser: Eraser,
+};
+
+const TYPE_LABELS = {
+  freehand: 'Drawing',
+  rect: 'Rectangle',
+  circle: 'Circle',
+  arrow: 'Arrow',
+  text: 'Text',
+  eraser: 'Eraser mask',
+};
+
+const ElementThumbnail: React.FC<{ element: WhiteboardElement }> = ({ element }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = THUMBNAIL_SIZE * ratio;
+    canvas.height = THUMBNAIL_SIZE * ratio;
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+    const bounds = getRotatedBounds(element);
+    const padding = element.strokeWidth + 2;
+    const scale = Math.min(
+      (THUMBNAIL_SIZE - 4) / Math.max(bounds.width + padding, 1),
+      (THUMBNAIL_SIZE - 4) / Math.max(bounds.height + padding, 1),
+      1
+    );
+    ctx.scale(ratio, ratio);
+    ctx.translate(THUMBNAIL_SIZE / 2, THUMBNAIL_SIZE / 2);
+    ctx.scale(scale, scale);
+    ctx.translate(-(bounds.x + bounds.width / 2), -(bounds.y + bounds.height / 2));
+    drawElement(ctx, { ...element, hidden: false });
+  }, [element]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="rounded border border-gray-200 bg-white"
+      style={{ width: THUMBNAIL_SIZE, height: THUMBNAIL_SIZE }}
+    />
+  );
+};
+
+interface LayersPanelProps {
+  // Elements in paint order (bottom first); the panel lists them top first.
+  elements: WhiteboardElement[];
+  selectedIds: string[];
+  onSelect: (id: string, additive: boolean) => void;
+  onToggleHidden: (element: WhiteboardElement) => void;
+  onToggleLocked: (element: WhiteboardElement) => void;
+  // Moves an element to `index` in paint order.
+  onMove: (id: string, index: number) => void;
+  onClose: () => void;
+}
+
+const LayersPanel: React.FC<LayersPanelProps> = ({
+  elements,
+  selectedIds,
+  onSelect,
+  onToggleHidden,
+  onToggleLocked,
+  onMove,
+  onClose,
+}) => {
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const rows = [...elements].reverse();
+
+  const handleDrop = (rowIndex: number) => {
+    if (draggedId) {
+      // Rows are listed top first, so row i is paint index length-1-i.
+      onMove(draggedId, elements.length - 1 - rowIndex);
+    }
+    setDraggedId(null);
+    setDropIndex(null);
+  };
+
+  return (
+    <div className="w-64 bg-white border-l border-gray-200 flex flex-col">
+      <div className="flex items-center justify-between p-3 border-b border-gray-200">
+        <h3 className="font-medium text-sm">Layers ({elements.length})</h3>
+        <button onClick={onClose} className="p-1 rounded hover:bg-gray-100" title="Close layers">
+          <X size={16} />
+        </button>
+      </div>
+
+      <ScrollArea className="flex-1">
+        <div className="p-2 space-y-1">
+          {rows.map((element, rowIndex) => {
+            const Icon = TYPE_ICONS[element.type] ?? Square;
+            const selected = selectedIds.includes(element.id);
+            const label =
+              element.type === 'text' && element.text ? element.text : TYPE_LABELS[element.type] ?? element.type;
+            return (
+              <div
+                key={element.id}
+                draggable
+                onDragStart={() => setDraggedId(element.id)}
+                onDragOver={e => {
+                  e.preventDefault();
+                  setDropIndex(rowIndex);
+                }}
+                onDrop={() => handleDrop(rowIndex)}
+                onDragEnd={() => {
+                  setDraggedId(null);
+                  setDropIndex(null);
+                }}
+                onClick={e => onSelect(element.id, e.shiftKey)}
+                className={`flex items-center gap-2 p-1.5 rounded cursor-pointer text-sm ${
+                  selected ? 'bg-blue-100 text-blue-700' : 'hover:bg-gray-100'
+                } ${dropIndex === rowIndex && draggedId !== element.id ? 'ring-1 ring-blue-400' : ''} ${
+                  element.hidden ? 'opacity-50' : ''
+                }`}
+              >
+                <ElementThumbnail element={element} />
+                <Icon size={14} className="shrink-0 text-gray-500" />
+                <span className="flex-1 truncate">{label}</span>
+                <button
+                  onClick={e => {
+                    e.stopPropagation();
+                    onToggleLocked(element);
+                  }}
+                  className={`p-1 rounded hover:bg-gray-200 ${element.locked ? 'text-amber-600' : 'text-gray-400'}`}
+                  title={element.locked ? 'Unlock' : 'Lock'}
+                >
+                  {element.locked ? <Lock size={14} /> : <LockOpen size={14} />}
+                </button>
+                <button
+                  onClick={e => {
+                    e.stopPropagation();
+                    onToggleHidden(element);
+                  }}
+                  className="p-1 rounded hover:bg-gray-200"
+                  title={element.hidden ? 'Show' : 'Hide'}
+                >
+                  {element.hidden ? <EyeOff size={14} /> : <Eye size={14} />}
+                </button>
+              </div>
+            );
+          })}
+
+          {elements.length === 0 && (
+            <p className="text-center text-xs text-gray-500 py-6">No elements on the board</p>
+          )}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+};
+
+export default LayersPanel;
@@ -0,0 +1,51 @@
+import * as React from "react"
+
+export interface CanvasSize {
+  // CSS pixels
+  width: number
+  height: number
+  // Backing store pixels per CSS pixel
+  pixelRatio: number
+}
+
+// Tracks the content size of `ref` and the current devicePixelRatio, which
+// changes on browser zoom or when the window moves to another monitor.
+export function useCanvasSize(ref: React.RefObject<HTMLElement>): CanvasSize {
+  const [size, setSize] = React.useState<CanvasSize>({
+    width: 0,
+    height: 0,
+    pixelRatio: window.devicePixelRatio || 1,
+  })
+
+  React.useEffect(() => {
+    const element = ref.current
+    if (!element) return
+
+    const update = (width: number, height: number) => {
+      const pixelRatio = window.devicePixelRatio || 1
+      setSize(prev =>
+        prev.width === width && prev.height === height && prev.pixelRatio === pixelRatio
+          ? prev
+          : { width, height, pixelRatio }
+      )
+    }
+
+    const observer = new ResizeObserver(([entry]) => {
+      update(Math.round(entry.contentRect.width), Math.round(entry.contentRect.height))
+    })
+    observer.observe(element)
+    update(element.clientWidth, element.clientHeight)
+    return () => observer.disconnect()
+  }, [ref])
+
+  React.useEffect(() => {
+    const mql = window.matchMedia(`(resolution: ${size.pixelRatio}dppx)`)
+    const onChange = () => {
+      setSize(prev => ({ ...prev, pixelRatio: window.devicePixelRatio || 1 }))
+    }
+    mql.addEventListener("change", onChange)
+    return () => mql.removeEventListener("change", onChange)
+  }, [size.pixelRatio])
+
+  return size
+}
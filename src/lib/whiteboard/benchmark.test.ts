@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { runOpBenchmark, runSpatialBenchmark } from './benchmark';
+
+// The linear scans are the slow side, so queries are kept few; the board
+// itself has the full 20k elements. Timings depend on the machine, so only
+// the work the index does is asserted, against the linear scan testing every
+// element.
+describe('runSpatialBenchmark', () => {
+  it.each([1, 2, 3])('answers like a linear scan on a 20k-element board (seed %i)', seed => {
+    const result = runSpatialBenchmark({ elements: 20000, queries: 50, seed });
+    expect(result.mismatches).toBe(0);
+    expect(result.pointEntries).toBeLessThan(result.elements / 20);
+    expect(result.pointCandidates).toBeLessThan(10);
+    expect(result.viewportEntries).toBeLessThan(result.elements / 20);
+  });
+});
+
+describe('runOpBenchmark', () => {
+  it('keeps the elements in step with the document on a 20k-element board', () => {
+    const result = runOpBenchmark({ elements: 20000, ops: 20 });
+    expect(result.consistent).toBe(true);
+  });
+});
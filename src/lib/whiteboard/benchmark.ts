@@ -0,0 +1,233 @@
+import { BBox, WhiteboardElement } from './types';
+import { findElementAt, getHitTolerance } from './geometry';
+import { createRandom } from './convergence';
+import { WhiteboardOpBody, addOps, applyOp, createOpFactory } from './ops';
+import { BoardDocument, emptyDocument, materialize } from './crdt';
+import { initialWhiteboardState, whiteboardReducer } from './reducer';
+import {
+  QueryStats,
+  boundsAroundPoint,
+  boundsIntersect,
+  buildSpatialIndex,
+  getIndexBounds,
+  queryElements,
+  querySpatialIndex,
+  updateSpatialIndex,
+} from './spatial';
+
+// --- SPATIAL INDEX BENCHMARK ---
+// Fills a large seeded board and times point and viewport queries through
+// the spatial index against the linear scans they replace. Every indexed
+// answer is checked against the linear one, so a run also validates the index.
+// benchmark.test.ts runs it on every test run; it is not part of the app.
+
+export interface SpatialBenchmarkOptions {
+  elements?: number;
+  queries?: number;
+  // Side of the square world area the elements are spread over
+  worldSize?: number;
+  seed?: number;
+}
+
+export interface SpatialBenchmarkResult {
+  elements: number;
+  queries: number;
+  buildMs: number;
+  // Re-indexing one moved element, as a single update op does
+  updateMs: number;
+  pointIndexedMs: number;
+  pointLinearMs: number;
+  viewportIndexedMs: number;
+  viewportLinearMs: number;
+  // Mean index entries tested per query, and elements hit-tested per point
+  // query; a linear scan tests every element
+  pointEntries: number;
+  pointCandidates: number;
+  viewportEntries: number;
+  // Queries where the index and the linear scan disagreed; should be 0
+  mismatches: number;
+}
+
+const COLORS = ['#1e1e1e', '#e03131', '#2f9e44', '#1971c2'];
+const VIEWPORT = { width: 1920, height: 1080 };
+
+const randomElement = (id: string, worldSize: number, random: () => number): WhiteboardElement => {
+  const x = random() * worldSize;
+  const y = random() * worldSize;
+  const base = {
+    id,
+    color: COLORS[Math.floor(random() * COLORS.length)],
+    strokeWidth: 1 + Math.floor(random() * 8),
+  };
+  const roll = random();
+
+  if (roll < 0.7) {
+    let point = { x, y };
+    const points = Array.from({ length: 10 + Math.floor(random() * 40) }, () => {
+      point = { x: point.x + (random() - 0.5) * 20, y: point.y + (random() - 0.5) * 20 };
+      return point;
+    });
+    return { ...base, type: 'freehand', points };
+  }
+  const end = { x: x + (random() - 0.5) * 300, y: y + (random() - 0.5) * 300 };
+  const type = roll < 0.8 ? 'rect' : roll < 0.9 ? 'circle' : 'arrow';
+  return { ...base, type, points: [{ x, y }, end], rotation: random() < 0.2 ? random() * Math.PI : undefined };
+};
+
+const time = <T>(run: () => T): [T, number] => {
+  const start = performance.now();
+  const result = run();
+  return [result, performance.now() - start];
+};
+
+const sameIds = (a: string[], b: string[]) => a.length === b.length && [...a].sort().join() === [...b].sort().join();
+
+export const runSpatialBenchmark = ({
+  elements: count = 20000,
+  queries = 1000,
+  worldSize = 20000,
+  seed = 1,
+}: SpatialBenchmarkOptions = {}): SpatialBenchmarkResult => {
+  const random = createRandom(seed);
+  const elements = Array.from({ length: count }, (_, i) => randomElement(`e${i}`, worldSize, random));
+  const order = new Map(elements.map((el, i) => [el.id, i]));
+  const tolerance = getHitTolerance(1);
+
+  const [index, buildMs] = time(() => buildSpatialIndex(elements));
+
+  const moved = { ...elements[0], points: elements[0].points.map(p => ({ x: p.x + 50, y: p.y })) };
+  const [, updateMs] = time(() => updateSpatialIndex(index, [moved.id], () => moved));
+
+  // Points near element vertices, so most queries actually hit something
+  const points = Array.from({ length: queries }, () => {
+    const el = elements[Math.floor(random() * count)];
+    const p = el.points[Math.floor(random() * el.points.length)];
+    return { x: p.x + (random() - 0.5) * 10, y: p.y + (random() - 0.5) * 10 };
+  });
+  const viewports: BBox[] = Array.from({ length: Math.max(1, Math.floor(queries / 10)) }, () => ({
+    x: random() * (worldSize - VIEWPORT.width),
+    y: random() * (worldSize - VIEWPORT.height),
+    ...VIEWPORT,
+  }));
+
+  const pointStats: QueryStats = { nodes: 0, entries: 0 };
+  let pointCandidates = 0;
+  const [pointIndexed, pointIndexedMs] = time(() =>
+    points.map(p => {
+      const candidates = queryElements(index, elements, order, boundsAroundPoint(p, tolerance), pointStats);
+      pointCandidates += candidates.length;
+      return findElementAt(candidates, p, tolerance)?.id;
+    })
+  );
+  const [pointLinear, pointLinearMs] = time(() => points.map(p => findElementAt(elements, p, tolerance)?.id));
+
+  const viewportStats: QueryStats = { nodes: 0, entries: 0 };
+  const [viewportIndexed, viewportIndexedMs] = time(() =>
+    viewports.map(rect => querySpatialIndex(index, rect, viewportStats))
+  );
+  const [viewportLinear, viewportLinearMs] = time(() =>
+    viewports.map(rect => elements.filter(el => boundsIntersect(getIndexBounds(el), rect)).map(el => el.id))
+  );
+
+  const mismatches =
+    pointIndexed.filter((id, i) => id !== pointLinear[i]).length +
+    viewportIndexed.filter((ids, i) => !sameIds(ids, viewportLinear[i])).length;
+
+  return {
+    elements: count,
+    queries,
+    buildMs,
+    updateMs,
+    pointIndexedMs,
+    pointLinearMs,
+    viewportIndexedMs,
+    viewportLinearMs,
+    pointEntries: pointStats.entries / points.length,
+    pointCandidates: pointCandidates / points.length,
+    viewportEntries: viewportStats.entries / viewports.length,
+    mismatches,
+  };
+};
+
+// --- OP BENCHMARK ---
+// Times the reducer for ops arriving on a large board. Where the board runs in
+// the worker this is the worker's cost, not the main thread's.
+
+export interface OpBenchmarkOptions {
+  elements?: number;
+  ops?: number;
+  seed?: number;
+}
+
+export interface OpBenchmarkResult {
+  elements: number;
+  ops: number;
+  // Loading the board from a peer's snapshot, as a joining client does
+  loadMs: number;
+  // Mean reducer time per op
+  updateMs: number;
+  addMs: number;
+  // Rebuilding every element from the document, which field updates skip
+  materializeMs: number;
+  // Whether the elements kept by the reducer match a full rebuild; should be true
+  consistent: boolean;
+}
+
+export const runOpBenchmark = ({
+  elements: count = 20000,
+  ops: opCount = 50,
+  seed = 1,
+}: OpBenchmarkOptions = {}): OpBenchmarkResult => {
+  const random = createRandom(seed);
+  const factory = createOpFactory('benchmark');
+  const elements = Array.from({ length: count }, (_, i) => randomElement(`e${i}`, 20000, random));
+
+  // Each add applied to an empty document on its own, so building the
+  // snapshot does not copy the growing board once per element
+  const snapshot: BoardDocument = {
+    records: Object.fromEntries(
+      addOps(emptyDocument, elements).map((body, i) => [
+        elements[i].id,
+        applyOp(emptyDocument, factory.create(body)).records[elements[i].id],
+      ])
+    ),
+    clearedAt: null,
+  };
+  const [loaded, loadMs] = time(() =>
+    whiteboardReducer(initialWhiteboardState, { type: 'MERGE_DOCUMENT', doc: snapshot })
+  );
+  let state = loaded;
+
+  const apply = (bodies: WhiteboardOpBody[]) => {
+    state = whiteboardReducer(state, { type: 'APPLY_OPS', ops: bodies.map(factory.create), local: true });
+  };
+  const pick = () => state.elements[Math.floor(random() * state.elements.length)];
+
+  const [, addTotal] = time(() => {
+    for (let i = 0; i < opCount; i++) {
+      apply(addOps(state.doc, [randomElement(`added${i}`, 20000, random)]));
+    }
+  });
+  // Last, so the final check covers the elements patched in place
+  const [, updateTotal] = time(() => {
+    for (let i = 0; i < opCount; i++) {
+      const target = pick();
+      apply([
+        i % 2 === 0
+          ? { kind: 'update', id: target.id, updates: { points: target.points.map(p => ({ ...p, x: p.x + 10 })) } }
+          : { kind: 'update', id: target.id, updates: { color: COLORS[i % COLORS.length] } },
+      ]);
+    }
+  });
+  const [rebuilt, materializeMs] = time(() => materialize(state.doc));
+
+  return {
+    elements: count,
+    ops: opCount,
+    loadMs,
+    updateMs: updateTotal / opCount,
+    addMs: addTotal / opCount,
+    materializeMs,
+    consistent: JSON.stringify(rebuilt) === JSON.stringify(state.elements),
+  };
+};
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { WhiteboardElement } from './types';
+import { BOARD_FILE_VERSION, parseBoardFile, serializeBoardFile } from './board-file';
+
+// A board as the deprecated Whiteboard page saved it: a bare array of shapes
+const v1Shapes = [
+  { id: 'pen', type: 'freehand', color: '#1e1e1e', stroke: 3, points: [{ x: 0, y: 0 }, { x: 10, y: 5 }] },
+  { id: 'box', type: 'rect', color: '#e03131', stroke: 2, x: 20, y: 30, width: 100, height: 50 },
+  { id: 'oval', type: 'circle', color: '#2f9e44', stroke: 2, x: 200, y: 0, width: 60, height: 40 },
+  { id: 'link', type: 'arrow', color: '#1971c2', stroke: 2, x1: 0, y1: 100, x2: 80, y2: 140 },
+  { id: 'note', type: 'text', color: '#1e1e1e', stroke: 1, x: 10, y: 200, text: 'Agenda', fontSize: 20 },
+  { id: 'blank', type: 'text', color: '#1e1e1e', stroke: 1, x: 10, y: 240, text: '' },
+  { id: 'rub', type: 'eraser', color: '#ffffff', points: [{ x: 5, y: 5 }] },
+];
+
+const v1Elements: WhiteboardElement[] = [
+  { id: 'pen', type: 'freehand', color: '#1e1e1e', strokeWidth: 3, points: [{ x: 0, y: 0 }, { x: 10, y: 5 }] },
+  { id: 'box', type: 'rect', color: '#e03131', strokeWidth: 2, points: [{ x: 20, y: 30 }, { x: 120, y: 80 }] },
+  { id: 'oval', type: 'circle', color: '#2f9e44', strokeWidth: 2, points: [{ x: 230, y: 20 }, { x: 255, y: 20 }] },
+  { id: 'link', type: 'arrow', color: '#1971c2', strokeWidth: 2, points: [{ x: 0, y: 100 }, { x: 80, y: 140 }] },
+  {
+    id: 'note',
+    type: 'text',
+    color: '#1e1e1e',
+    strokeWidth: 1,
+    points: [{ x: 10, y: 200 }],
+    text: 'Agenda',
+    fontSize: 20,
+  },
+  { id: 'rub', type: 'eraser', color: '#ffffff', strokeWidth: 2, points: [{ x: 5, y: 5 }] },
+];
+
+const board: WhiteboardElement[] = [
+  { id: 'a', type: 'rect', color: '#1e1e1e', strokeWidth: 2, points: [{ x: 0, y: 0 }, { x: 40, y: 30 }], rotation: 0.5 },
+  { id: 'b', type: 'text', color: '#1e1e1e', strokeWidth: 1, points: [{ x: 5, y: 50 }], text: 'Hi', fontSize: 16, groupIds: ['g'] },
+];
+
+describe('parseBoardFile', () => {
+  it('reads back a saved board', () => {
+    const result = parseBoardFile(serializeBoardFile(board, new Date('2024-05-01T12:00:00.000Z')));
+    expect(result).toEqual({
+      ok: true,
+      migratedFrom: null,
+      file: { type: 'freeboard', version: BOARD_FILE_VERSION, savedAt: '2024-05-01T12:00:00.000Z', elements: board },
+    });
+  });
+
+  it.each([
+    { name: 'a bare array of shapes', text: JSON.stringify(v1Shapes) },
+    { name: 'an object with only shapes', text: JSON.stringify({ shapes: v1Shapes }) },
+    { name: 'a version 1 file', text: JSON.stringify({ type: 'freeboard', version: 1, shapes: v1Shapes }) },
+  ])('migrates $name from version 1', ({ text }) => {
+    const result = parseBoardFile(text);
+    expect(result).toEqual({
+      ok: true,
+      migratedFrom: 1,
+      file: { type: 'freeboard', version: BOARD_FILE_VERSION, elements: v1Elements },
+    });
+  });
+
+  it.each([
+    { name: 'text that is not JSON', text: '{"type": "freeboard",', error: 'The file is not valid JSON' },
+    { name: 'JSON of another app', text: '{"type": "excalidraw", "elements": []}', error: 'The file is not a FreeBoard board' },
+    { name: 'a file without a version', text: '{"type": "freeboard", "elements": []}', error: 'The file is not a FreeBoard board' },
+    {
+      name: 'a file from a newer version',
+      text: JSON.stringify({ type: 'freeboard', version: BOARD_FILE_VERSION + 1, elements: [] }),
+      error: `The file was saved by a newer FreeBoard (format version ${BOARD_FILE_VERSION + 1})`,
+    },
+    {
+      name: 'an element of an unknown type',
+      text: JSON.stringify({ type: 'freeboard', version: 2, elements: [{ ...board[0], type: 'star' }] }),
+      error: expect.stringMatching(/^The board is damaged \(elements\.0\.type: /),
+    },
+    {
+      name: 'a point that is not a number',
+      text: JSON.stringify({ type: 'freeboard', version: 2, elements: [{ ...board[0], points: [{ x: 'a', y: 0 }] }] }),
+      error: expect.stringMatching(/^The board is damaged \(elements\.0\.points\.0\.x: /),
+    },
+    {
+      name: 'a damaged version 1 shape',
+      text: JSON.stringify([{ id: 'box', type: 'rect', color: '#000000', x: 0, y: 0 }]),
+      error: expect.stringMatching(/^The board is damaged \(shapes\.0\.width: /),
+    },
+  ])('rejects $name', ({ text, error }) => {
+    expect(parseBoardFile(text)).toEqual({ ok: false, error });
+  });
+});
@@ -0,0 +1,255 @@
+import { z } from 'zod';
+import { Point, WhiteboardElement } from './types';
+import { downloadBlob, getExportFileName } from './export';
+
+// --- BOARD FILES ---
+// Boards are saved as `.freeboard` files: UTF-8 JSON of the form
+//
+//   {
+//     "type": "freeboard",
+//     "version": 2,
+//     "savedAt": "2024-05-01T12:00:00.000Z",
+//     "elements": [WhiteboardElement, ...]
+//   }
+//
+// with elements in paint order, bottom first. Every change to the layout
+// bumps `version` and adds a migration from the previous one, so files from
+// any earlier version open by stepping through the migrations in turn.
+//
+// Version history:
+//   1  The deprecated Whiteboard page's `Shape` model: `shapes` instead of
+//      `elements`, with boxes (x/y/width/height) for rects and circles and
+//      x1/y1/x2/y2 for arrows. A bare array of shapes, or an object with only
+//      `shapes`, is read as version 1.
+//   2  Points-based WhiteboardElement, as used by the board today.
+
+export const BOARD_FILE_TYPE = 'freeboard';
+export const BOARD_FILE_VERSION = 2;
+export const BOARD_FILE_EXTENSION = '.freeboard';
+export const BOARD_FILE_MIME = 'application/x-freeboard+json';
+
+// --- VERSION 2 ---
+
+const finite = z.number().finite();
+
+const pointSchema = z.object({
+  x: finite,
+  y: finite,
+  pressure: z.number().min(0).max(1).optional(),
+});
+
+const bboxSchema = z.object({ x: finite, y: finite, width: finite, height: finite });
+
+const toolSchema = z.enum(['select', 'pan', 'freehand', 'rect', 'circle', 'arrow', 'text', 'eraser']);
+
+// Also validates pasted elements before they are broadcast to the board
+export const elementSchema = z.object({
+  id: z.string().min(1),
+  type: toolSchema,
+  points: z.array(pointSchema),
+  color: z.string(),
+  strokeWidth: z.number().min(0),
+  fontSize: z.number().positive().optional(),
+  text: z.string().optional(),
+  bbox: bboxSchema.optional(),
+  rotation: finite.optional(),
+  groupIds: z.array(z.string()).optional(),
+  hidden: z.boolean().optional(),
+  locked: z.boolean().optional(),
+});
+
+const boardFileSchema = z.object({
+  type: z.literal(BOARD_FILE_TYPE),
+  version: z.literal(2),
+  savedAt: z.string().optional(),
+  elements: z.array(elementSchema),
+});
+
+// Spelled out rather than inferred: without strict mode, zod infers every
+// property as optional
+export interface BoardFile {
+  type: typeof BOARD_FILE_TYPE;
+  version: typeof BOARD_FILE_VERSION;
+  savedAt?: string;
+  elements: WhiteboardElement[];
+}
+
+// --- VERSION 1 (legacy Shape) ---
+
+const legacyBase = {
+  id: z.string().min(1),
+  color: z.string(),
+  stroke: z.number().min(0).default(2),
+  fontSize: z.number().positive().default(16),
+};
+
+const legacyShapeSchema = z.discriminatedUnion('type', [
+  z.object({ ...legacyBase, type: z.enum(['freehand', 'eraser']), points: z.array(pointSchema) }),
+  z.object({ ...legacyBase, type: z.enum(['rect', 'circle']), x: finite, y: finite, width: finite, height: finite }),
+  z.object({ ...legacyBase, type: z.literal('arrow'), x1: finite, y1: finite, x2: finite, y2: finite }),
+  z.object({ ...legacyBase, type: z.literal('text'), x: finite, y: finite, text: z.string() }),
+]);
+
+const legacyFileSchema = z.object({
+  type: z.literal(BOARD_FILE_TYPE),
+  version: z.literal(1),
+  shapes: z.array(legacyShapeSchema),
+});
+
+interface LegacyBase {
+  id: string;
+  color: string;
+  stroke: number;
+  fontSize: number;
+}
+
+type LegacyShape = LegacyBase &
+  (
+    | { type: 'freehand' | 'eraser'; points: Point[] }
+    | { type: 'rect' | 'circle'; x: number; y: number; width: number; height: number }
+    | { type: 'arrow'; x1: number; y1: number; x2: number; y2: number }
+    | { type: 'text'; x: number; y: number; text: string }
+  );
+
+// Ellipses cannot be expressed as elements and become the circle of their
+// mean radius. Text without content is dropped, as the board never keeps it.
+const migrateShape = (shape: LegacyShape): WhiteboardElement | null => {
+  const base = { id: shape.id, color: shape.color, strokeWidth: shape.stroke };
+  switch (shape.type) {
+    case 'freehand':
+    case 'eraser':
+      return { ...base, type: shape.type, points: shape.points };
+
+    case 'rect':
+      return {
+        ...base,
+        type: 'rect',
+        points: [
+          { x: shape.x, y: shape.y },
+          { x: shape.x + shape.width, y: shape.y + shape.height },
+        ],
+      };
+
+    case 'circle': {
+      const center = { x: shape.x + shape.width / 2, y: shape.y + shape.height / 2 };
+      const radius = (Math.abs(shape.width) + Math.abs(shape.height)) / 4;
+      return { ...base, type: 'circle', points: [center, { x: center.x + radius, y: center.y }] };
+    }
+
+    case 'arrow':
+      return {
+        ...base,
+        type: 'arrow',
+        points: [
+          { x: shape.x1, y: shape.y1 },
+          { x: shape.x2, y: shape.y2 },
+        ],
+      };
+
+    case 'text':
+      if (!shape.text) return null;
+      return { ...base, type: 'text', points: [{ x: shape.x, y: shape.y }], text: shape.text, fontSize: shape.fontSize };
+  }
+};
+
+// --- MIGRATIONS ---
+
+// Each entry turns a file of its version into one of the next version
+const MIGRATIONS: Record<number, (data: unknown) => unknown> = {
+  1: data => {
+    const file = legacyFileSchema.parse(data) as { shapes: LegacyShape[] };
+    return {
+      type: BOARD_FILE_TYPE,
+      version: 2,
+      elements: file.shapes.map(migrateShape).filter((el): el is WhiteboardElement => el !== null),
+    };
+  },
+};
+
+// Legacy boards were never written with a header
+const withLegacyHeader = (data: unknown): unknown => {
+  if (Array.isArray(data)) return { type: BOARD_FILE_TYPE, version: 1, shapes: data };
+  if (data && typeof data === 'object' && 'shapes' in data && !('version' in data)) {
+    return { type: BOARD_FILE_TYPE, version: 1, ...data };
+  }
+  return data;
+};
+
+const describeIssue = (error: z.ZodError) => {
+  const issue = error.issues[0];
+  return issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message;
+};
+
+export type BoardFileResult =
+  | { ok: true; file: BoardFile; migratedFrom: number | null }
+  | { ok: false; error: string };
+
+export const parseBoardFile = (text: string): BoardFileResult => {
+  let data: unknown;
+  try {
+    data = withLegacyHeader(JSON.parse(text));
+  } catch {
+    return { ok: false, error: 'The file is not valid JSON' };
+  }
+
+  const header = z.object({ type: z.literal(BOARD_FILE_TYPE), version: z.number().int().min(1) }).safeParse(data);
+  if (!header.success) return { ok: false, error: 'The file is not a FreeBoard board' };
+  const { version } = header.data;
+  if (version > BOARD_FILE_VERSION) {
+    return { ok: false, error: `The file was saved by a newer FreeBoard (format version ${version})` };
+  }
+
+  try {
+    for (let from = version; from < BOARD_FILE_VERSION; from++) {
+      data = MIGRATIONS[from](data);
+    }
+    const file = boardFileSchema.parse(data) as BoardFile;
+    return { ok: true, file, migratedFrom: version < BOARD_FILE_VERSION ? version : null };
+  } catch (error) {
+    if (error instanceof z.ZodError) return { ok: false, error: `The board is damaged (${describeIssue(error)})` };
+    throw error;
+  }
+};
+
+export const serializeBoardFile = (elements: WhiteboardElement[], savedAt = new Date()): string =>
+  JSON.stringify({
+    type: BOARD_FILE_TYPE,
+    version: BOARD_FILE_VERSION,
+    savedAt: savedAt.toISOString(),
+    elements,
+  } satisfies BoardFile);
+
+// --- SAVING ---
+
+interface SaveFilePickerOptions {
+  suggestedName: string;
+  types: { description: string; accept: Record<string, string[]> }[];
+}
+
+type SaveFilePicker = (options: SaveFilePickerOptions) => Promise<FileSystemFileHandle>;
+
+// Lets the user pick name and folder where the browser supports it, and
+// downloads the file otherwise. Resolves to false if the user cancels.
+export const saveBoardFile = async (elements: WhiteboardElement[]): Promise<boolean> => {
+  const blob = new Blob([serializeBoardFile(elements)], { type: BOARD_FILE_MIME });
+  const suggestedName = `${getExportFileName()}${BOARD_FILE_EXTENSION}`;
+  const showSaveFilePicker = (window as Window & { showSaveFilePicker?: SaveFilePicker }).showSaveFilePicker;
+
+  if (!showSaveFilePicker) {
+    downloadBlob(blob, suggestedName);
+    return true;
+  }
+  try {
+    const handle = await showSaveFilePicker({
+      suggestedName,
+      types: [{ description: 'FreeBoard board', accept: { [BOARD_FILE_MIME]: [BOARD_FILE_EXTENSION] } }],
+    });
+    const writable = await handle.createWritable();
+    await writable.write(blob);
+    await writable.close();
+    return true;
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') return false;
+    throw error;
+  }
+};
@@ -0,0 +1,134 @@
+import { createLayeredRenderer } from './renderer';
+import {
+  BoardSessionEvents,
+  BoardSessionOptions,
+  SessionAnswers,
+  SessionInput,
+  SessionQuery,
+  createBoardSession,
+} from './board-session';
+import type { BoardWorkerMessage, BoardWorkerReply } from './board-worker';
+
+// --- BOARD HOST ---
+// Creates the board's canvas layers inside a container and runs the board
+// session either in a worker, with the canvases transferred as
+// OffscreenCanvas, or on the main thread where that is unavailable. The
+// component talks to both the same way.
+//
+// In the worker the main thread keeps no replica: it sends pointer input in
+// world coordinates and op batches, and reads elements only through queries
+// (saving, export, the context menu) and the session's summary (selection,
+// history, the layers panel while it is open).
+
+export interface BoardHost {
+  readonly inWorker: boolean;
+  send(input: SessionInput): void;
+  query<Q extends SessionQuery>(query: Q): Promise<SessionAnswers[Q['type']]>;
+  dispose(): void;
+}
+
+export interface BoardHostOptions extends BoardSessionOptions {
+  // Prefer a worker when the browser supports it
+  worker: boolean;
+}
+
+export const canRenderInWorker = (): boolean =>
+  typeof Worker !== 'undefined' &&
+  typeof OffscreenCanvas !== 'undefined' &&
+  'transferControlToOffscreen' in HTMLCanvasElement.prototype;
+
+// A canvas can be transferred only once, so layers are created here rather
+// than rendered by React, and replaced whenever a host is recreated.
+const createLayer = (container: HTMLElement): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.style.position = 'absolute';
+  canvas.style.inset = '0';
+  canvas.style.pointerEvents = 'none';
+  container.appendChild(canvas);
+  return canvas;
+};
+
+export const createBoardHost = (
+  container: HTMLElement,
+  { worker, ...options }: BoardHostOptions,
+  events: BoardSessionEvents
+): BoardHost => {
+  const base = createLayer(container);
+  const live = createLayer(container);
+
+  // The layers are sized in CSS pixels here; their backing stores are sized
+  // by the renderer
+  const setCssSize = (input: SessionInput) => {
+    if (input.type !== 'viewport') return;
+    [base, live].forEach(canvas => {
+      canvas.style.width = `${input.viewport.width}px`;
+      canvas.style.height = `${input.viewport.height}px`;
+    });
+  };
+  const removeLayers = () => {
+    base.remove();
+    live.remove();
+  };
+
+  if (worker && canRenderInWorker()) {
+    const thread = new Worker(new URL('./board-worker.ts', import.meta.url), { type: 'module' });
+    const post = (message: BoardWorkerMessage, transfer: Transferable[] = []) => thread.postMessage(message, transfer);
+    const pending = new Map<number, (answer: SessionAnswers[keyof SessionAnswers]) => void>();
+    let nextQueryId = 0;
+
+    thread.addEventListener('message', (e: MessageEvent<BoardWorkerReply>) => {
+      const message = e.data;
+      switch (message.type) {
+        case 'ops':
+          events.onOps(message.ops);
+          break;
+        case 'summary':
+          events.onSummary(message.summary);
+          break;
+        case 'answer':
+          pending.get(message.id)?.(message.answer);
+          pending.delete(message.id);
+          break;
+      }
+    });
+
+    const offscreenBase = base.transferControlToOffscreen();
+    const offscreenLive = live.transferControlToOffscreen();
+    post({ type: 'init', base: offscreenBase, live: offscreenLive, options }, [offscreenBase, offscreenLive]);
+
+    return {
+      inWorker: true,
+      send: input => {
+        setCssSize(input);
+        post({ type: 'input', input });
+      },
+      // Answered in order with the inputs sent before
+      query: <Q extends SessionQuery>(query: Q) =>
+        new Promise<SessionAnswers[Q['type']]>(resolve => {
+          const id = nextQueryId++;
+          pending.set(id, answer => resolve(answer as SessionAnswers[Q['type']]));
+          post({ type: 'query', id, query });
+        }),
+      dispose: () => {
+        thread.terminate();
+        pending.clear();
+        removeLayers();
+      },
+    };
+  }
+
+  const renderer = createLayeredRenderer(base, live);
+  const session = createBoardSession(renderer, options, events);
+  return {
+    inWorker: false,
+    send: input => {
+      setCssSize(input);
+      session.handle(input);
+    },
+    query: async query => session.query(query),
+    dispose: () => {
+      renderer.dispose();
+      removeLayers();
+    },
+  };
+};
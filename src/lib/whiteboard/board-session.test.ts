@@ -0,0 +1,159 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Point, WhiteboardElement } from './types';
+import { WhiteboardOp } from './ops';
+import { BoardSummary, PointerInput, ToolSettings, createBoardSession } from './board-session';
+
+const settings: ToolSettings = {
+  tool: 'rect',
+  color: '#1e1e1e',
+  strokeWidth: 2,
+  fontSize: 16,
+  eraserMode: 'object',
+  eraserSize: 12,
+  regionTool: 'marquee',
+  regionMode: 'intersect',
+  streamline: 0,
+  simplifyTolerance: 0,
+};
+
+const box = (id: string, x: number, y: number): WhiteboardElement => ({
+  id,
+  type: 'rect',
+  color: '#1e1e1e',
+  strokeWidth: 2,
+  points: [{ x, y }, { x: x + 50, y: y + 50 }],
+});
+
+// A session drawing into a renderer that only records what it is handed
+const setup = (tool: ToolSettings['tool'] = 'rect') => {
+  const renderer = { setViewport: vi.fn(), setBoard: vi.fn(), setPreview: vi.fn(), setLiveScene: vi.fn() };
+  const ops: WhiteboardOp[][] = [];
+  const summaries: BoardSummary[] = [];
+  const session = createBoardSession(
+    renderer,
+    { clientId: 'me', settings: { ...settings, tool } },
+    { onOps: batch => ops.push(batch), onSummary: summary => summaries.push(summary) }
+  );
+  session.handle({ type: 'viewport', viewport: { camera: { zoom: 1, pan: { x: 0, y: 0 } }, width: 800, height: 600, pixelRatio: 1 } });
+  const pointer = (phase: PointerInput['phase'], ...points: Point[]) =>
+    session.handle({ type: 'pointer', pointer: { phase, points, shiftKey: false } });
+  const lastSummary = () => summaries[summaries.length - 1];
+  return { session, renderer, ops, lastSummary, pointer };
+};
+
+describe('createBoardSession', () => {
+  it('draws a shape from pointer input and hands out its op', () => {
+    const { session, ops, lastSummary, pointer } = setup();
+    pointer('down', { x: 10, y: 10 });
+    pointer('move', { x: 40, y: 30 });
+    expect(ops).toHaveLength(0);
+    pointer('up', { x: 40, y: 30 });
+
+    expect(ops).toHaveLength(1);
+    expect(ops[0][0]).toMatchObject({ clientId: 'me', kind: 'add' });
+    expect(session.query({ type: 'elements' })).toMatchObject([{ type: 'rect', points: [{ x: 10, y: 10 }, { x: 40, y: 30 }] }]);
+    expect(lastSummary().canUndo).toBe(true);
+  });
+
+  it('moves the element under the pointer as one step', () => {
+    const { session, ops, lastSummary, pointer } = setup('select');
+    session.handle({ type: 'command', command: { type: 'insert', elements: [box('a', 0, 0), box('b', 200, 0)], select: false } });
+    ops.length = 0;
+
+    pointer('down', { x: 0, y: 25 });
+    expect(lastSummary().selected.map(el => el.id)).toEqual(['a']);
+    pointer('move', { x: 5, y: 30 });
+    pointer('move', { x: 10, y: 35 });
+    pointer('up', { x: 10, y: 35 });
+
+    expect(ops).toHaveLength(1);
+    expect(ops[0]).toMatchObject([{ kind: 'update', id: 'a', updates: { points: [{ x: 10, y: 10 }, { x: 60, y: 60 }] } }]);
+  });
+
+  it('applies peer ops and merged documents without recording history', () => {
+    const peer = setup();
+    peer.session.handle({ type: 'command', command: { type: 'insert', elements: [box('a', 0, 0)], select: false } });
+
+    const { session, ops, lastSummary } = setup();
+    session.handle({ type: 'ops', ops: peer.ops[0] });
+    session.handle({ type: 'merge', doc: peer.session.query({ type: 'document' }) });
+
+    expect(session.query({ type: 'elements' }).map(el => el.id)).toEqual(['a']);
+    expect(lastSummary().canUndo).toBe(false);
+    expect(ops).toHaveLength(0);
+  });
+
+  it('replays undo and redo as new ops', () => {
+    const { session, ops, lastSummary } = setup();
+    session.handle({ type: 'command', command: { type: 'insert', elements: [box('a', 0, 0)], select: false } });
+    session.handle({ type: 'command', command: { type: 'undo' } });
+    expect(session.query({ type: 'elements' })).toEqual([]);
+    expect(lastSummary()).toMatchObject({ canUndo: false, canRedo: true });
+
+    session.handle({ type: 'command', command: { type: 'redo' } });
+    expect(session.query({ type: 'elements' }).map(el => el.id)).toEqual(['a']);
+    expect(ops).toHaveLength(3);
+  });
+
+  it('erases a whole drag as one step and previews it only when something is erased', () => {
+    const { session, renderer, ops, pointer } = setup('eraser');
+    session.handle({ type: 'command', command: { type: 'insert', elements: [box('a', 0, 0), box('b', 200, 0)], select: false } });
+    ops.length = 0;
+
+    pointer('down', { x: 100, y: 100 });
+    renderer.setPreview.mockClear();
+    pointer('move', { x: 100, y: 110 });
+    expect(renderer.setPreview).not.toHaveBeenCalled();
+    pointer('move', { x: 0, y: 25 });
+    pointer('move', { x: 0, y: 30 });
+    expect(renderer.setPreview).toHaveBeenCalledTimes(1);
+    expect(renderer.setPreview).toHaveBeenLastCalledWith({ liveIds: [], erasedIds: ['a'], pieces: {} });
+
+    pointer('up', { x: 0, y: 30 });
+    expect(ops).toEqual([[expect.objectContaining({ kind: 'delete', ids: ['a'] })]]);
+    expect(session.query({ type: 'elements' }).map(el => el.id)).toEqual(['b']);
+  });
+
+  it('sends every element only while the layers are watched', () => {
+    const { session, lastSummary } = setup();
+    session.handle({ type: 'command', command: { type: 'insert', elements: [box('a', 0, 0)], select: false } });
+    expect(lastSummary().layers).toBeNull();
+
+    session.handle({ type: 'layers', watch: true });
+    expect(lastSummary().layers?.map(el => el.id)).toEqual(['a']);
+    session.handle({ type: 'layers', watch: false });
+    expect(lastSummary().layers).toBeNull();
+  });
+
+  it('reports a summary only when it changes', () => {
+    const onSummary = vi.fn();
+    const session = createBoardSession(
+      { setViewport: vi.fn(), setBoard: vi.fn(), setPreview: vi.fn(), setLiveScene: vi.fn() },
+      { clientId: 'me', settings },
+      { onOps: vi.fn(), onSummary }
+    );
+    expect(onSummary).toHaveBeenCalledTimes(1);
+
+    session.handle({ type: 'cursors', cursors: [], now: 1 });
+    session.handle({ type: 'pointer', pointer: { phase: 'move', points: [{ x: 1, y: 1 }], shiftKey: false } });
+    expect(onSummary).toHaveBeenCalledTimes(1);
+  });
+
+  it('targets the element under a right-click and selects it', () => {
+    const { session, lastSummary } = setup('select');
+    session.handle({ type: 'command', command: { type: 'insert', elements: [box('a', 0, 0)], select: false } });
+
+    expect(session.query({ type: 'context', point: { x: 300, y: 300 } })).toEqual([]);
+    expect(session.query({ type: 'context', point: { x: 50, y: 25 } }).map(el => el.id)).toEqual(['a']);
+    expect(lastSummary().selected.map(el => el.id)).toEqual(['a']);
+  });
+
+  it('exports what the viewport shows', () => {
+    const { session } = setup();
+    session.handle({ type: 'command', command: { type: 'insert', elements: [box('a', 0, 0), box('b', 2000, 0)], select: false } });
+
+    const content = session.query({ type: 'export', scope: 'viewport' });
+    expect(content.elements.map(el => el.id)).toEqual(['a']);
+    expect(content.region).toEqual({ x: 0, y: 0, width: 800, height: 600 });
+  });
+});
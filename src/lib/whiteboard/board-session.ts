@@ -0,0 +1,764 @@
+import { BBox, Point, Tool, WhiteboardElement } from './types';
+import { WhiteboardOp, WhiteboardOpBody, addOp, addOps, createId, createOpFactory } from './ops';
+import { BoardDocument, documentClock } from './crdt';
+import { WhiteboardState, initialWhiteboardState, whiteboardReducer } from './reducer';
+import {
+  boundsFromPoints,
+  findElementAt,
+  getElementOutline,
+  getHitTolerance,
+  getRotatedBounds,
+  hitTestElement,
+  isElementInteractive,
+  unionBounds,
+} from './geometry';
+import { expandToGroups, getGroupIds, getGroupMembers, getSelectableGroupId, groupOps, ungroupOps } from './groups';
+import { LayeredRenderer, LiveScene, Viewport, emptyPreview } from './renderer';
+import { TextPreview } from './overlay';
+import { RemoteCursor } from './presence';
+import { getVisibleWorldBounds } from './camera';
+import {
+  SelectionFrame,
+  TransformHandle,
+  getRotationAngle,
+  getSelectionFrame,
+  hitTestHandle,
+  moveElements,
+  resizeElements,
+  rotateElements,
+} from './transform';
+import { RegionSelectMode, SelectionRegion, rectFromPoints, selectInPolygon, selectInRect } from './selection';
+import { ZOrderCommand, moveToIndexOps, zOrderOps } from './zorder';
+import { ExportContent, ExportScope, getExportContent } from './export';
+import { EraserMode, erasePieces, getWorldPoints, sampleEraserPath, splitStrokeOps } from './eraser';
+import { simplifyPoints, smoothPoint } from './stroke';
+import { boundsAroundPoint, queryElements } from './spatial';
+
+// --- BOARD SESSION ---
+// Owns the board: the replica of the document, the local history, the
+// selection and every interaction that reads elements (hit testing, group
+// expansion, transforms, erasing, region selection, export content), and
+// hands each state to the layered renderer. The component forwards pointer
+// input in world coordinates, op batches from peers and commands from its
+// toolbar; it gets back the ops to broadcast and a summary of what its
+// toolbar and panels show. The session runs inside the board worker, or on
+// the main thread where OffscreenCanvas is unavailable.
+
+export interface ToolSettings {
+  tool: Tool;
+  color: string;
+  strokeWidth: number;
+  fontSize: number;
+  eraserMode: EraserMode;
+  // Diameter in screen pixels
+  eraserSize: number;
+  regionTool: SelectionRegion['kind'];
+  regionMode: RegionSelectMode;
+  // Freehand input smoothing (0..1) and simplification tolerance in screen pixels
+  streamline: number;
+  simplifyTolerance: number;
+}
+
+export interface PointerInput {
+  phase: 'down' | 'move' | 'up' | 'cancel' | 'leave' | 'double';
+  // World coordinates, oldest first: several for coalesced moves. Pen input
+  // carries its pressure.
+  points: Point[];
+  shiftKey: boolean;
+}
+
+export type SessionCommand =
+  | { type: 'undo' }
+  | { type: 'redo' }
+  // Adds elements on top of the board
+  | { type: 'insert'; elements: WhiteboardElement[]; select: boolean }
+  // Replaces the whole board, as one undoable step
+  | { type: 'replace'; elements: WhiteboardElement[] }
+  | { type: 'clear' }
+  | { type: 'update'; id: string; updates: Partial<WhiteboardElement> }
+  | { type: 'select-all' }
+  // Leaves the entered group and clears the selection
+  | { type: 'escape' }
+  | { type: 'select-layer'; id: string; additive: boolean }
+  | { type: 'move-layer'; id: string; index: number }
+  | { type: 'z-order'; command: ZOrderCommand }
+  | { type: 'group' }
+  | { type: 'ungroup' }
+  | { type: 'restyle'; updates: { color: string } | { strokeWidth: number } }
+  // Locks the selection, or unlocks it if every element is already locked
+  | { type: 'toggle-locked' }
+  | { type: 'hide-selection' }
+  | { type: 'delete-selection' };
+
+export type SessionInput =
+  | { type: 'viewport'; viewport: Viewport }
+  | { type: 'settings'; settings: ToolSettings }
+  | { type: 'pointer'; pointer: PointerInput }
+  // Ops from peers
+  | { type: 'ops'; ops: WhiteboardOp[] }
+  // A peer's replica, sent when joining a board
+  | { type: 'merge'; doc: BoardDocument }
+  | { type: 'text'; text: TextPreview | null }
+  | { type: 'cursors'; cursors: RemoteCursor[]; now: number }
+  // Whether the summary should carry every element, for the layers panel
+  | { type: 'layers'; watch: boolean }
+  | { type: 'command'; command: SessionCommand };
+
+export type SessionQuery =
+  | { type: 'document' }
+  | { type: 'elements' }
+  | { type: 'export'; scope: ExportScope }
+  // Selects what a right-click at `point` targets and answers it
+  | { type: 'context'; point: Point };
+
+export interface SessionAnswers {
+  document: BoardDocument;
+  elements: WhiteboardElement[];
+  export: ExportContent;
+  context: WhiteboardElement[];
+}
+
+// What the component renders from the board
+export interface BoardSummary {
+  // Selected elements as committed, in paint order
+  selected: WhiteboardElement[];
+  // All elements in paint order while the layers panel watches them
+  layers: WhiteboardElement[] | null;
+  canUndo: boolean;
+  canRedo: boolean;
+  // Whether the select tool is over an element
+  hovering: boolean;
+}
+
+export interface BoardSessionOptions {
+  clientId: string;
+  settings: ToolSettings;
+}
+
+export interface BoardSessionEvents {
+  // Local changes, already applied, to broadcast
+  onOps: (ops: WhiteboardOp[]) => void;
+  onSummary: (summary: BoardSummary) => void;
+}
+
+export type SessionRenderer = Pick<LayeredRenderer, 'setViewport' | 'setBoard' | 'setPreview' | 'setLiveScene'>;
+
+// An in-progress select-tool drag. `preview` is drawn instead of `originals`
+// until the drag ends and the result is committed as ops.
+interface TransformDrag {
+  mode: 'move' | TransformHandle;
+  start: Point;
+  frame: SelectionFrame;
+  originals: WhiteboardElement[];
+  preview: WhiteboardElement[];
+}
+
+// An in-progress object or stroke erase. Nothing is committed until the
+// pointer is released, so the whole drag is one undo step.
+interface EraseDrag {
+  last: Point;
+  erasedIds: string[];
+  // Remaining world-space pieces of each freehand stroke cut so far
+  pieces: Record<string, Point[][]>;
+}
+
+const ROTATION_SNAP = Math.PI / 12;
+
+// Pressure only matters to strokes
+const withoutPressure = ({ x, y }: Point): Point => ({ x, y });
+
+const sameSummary = (a: BoardSummary, b: BoardSummary) =>
+  a.layers === b.layers &&
+  a.canUndo === b.canUndo &&
+  a.canRedo === b.canRedo &&
+  a.hovering === b.hovering &&
+  a.selected.length === b.selected.length &&
+  a.selected.every((el, i) => el === b.selected[i]);
+
+export const createBoardSession = (
+  renderer: SessionRenderer,
+  { clientId, settings: initialSettings }: BoardSessionOptions,
+  { onOps, onSummary }: BoardSessionEvents
+) => {
+  const factory = createOpFactory(clientId);
+  let state: WhiteboardState = initialWhiteboardState;
+  let settings = initialSettings;
+  let viewport: Viewport = { camera: { zoom: 1, pan: { x: 0, y: 0 } }, width: 0, height: 0, pixelRatio: 1 };
+  // Group entered with a double-click; clicks then select inside it
+  let editingGroupId: string | null = null;
+  // Element under an idle pointer, highlighted by the select and eraser tools
+  let hoveredId: string | null = null;
+  let transformDrag: TransformDrag | null = null;
+  let eraseDrag: EraseDrag | null = null;
+  let region: SelectionRegion | null = null;
+  // Element being drawn
+  let drawing: WhiteboardElement | null = null;
+  let eraserCursor: Point | null = null;
+  let text: TextPreview | null = null;
+  let cursors: RemoteCursor[] = [];
+  let now = 0;
+  let watchLayers = false;
+  let summary: BoardSummary | null = null;
+
+  const zoom = () => viewport.camera.zoom;
+  // Eraser radius in world units
+  const eraserRadius = () => settings.eraserSize / 2 / zoom();
+
+  // Position of each element in paint order, to sort spatial query results
+  let order = { elements: state.elements, positions: new Map<string, number>() };
+  const getPositions = () => {
+    if (order.elements !== state.elements) {
+      order = { elements: state.elements, positions: new Map(state.elements.map((el, i) => [el.id, i])) };
+    }
+    return order.positions;
+  };
+
+  // Elements whose bounds reach into `rect`, in paint order
+  const elementsIn = (rect: BBox) => queryElements(state.index, state.elements, getPositions(), rect);
+  const elementsNear = (point: Point, radius: number) => elementsIn(boundsAroundPoint(point, radius));
+
+  const getElements = (ids: string[]) => {
+    const positions = getPositions();
+    return ids
+      .map(id => positions.get(id))
+      .filter((i): i is number => i !== undefined)
+      .sort((a, b) => a - b)
+      .map(i => state.elements[i]);
+  };
+
+  // Elements as drawn, with any in-progress transform applied
+  const withTransform = (elements: WhiteboardElement[]) => {
+    if (!transformDrag) return elements;
+    const previews = new Map(transformDrag.preview.map(el => [el.id, el]));
+    return elements.map(el => previews.get(el.id) ?? el);
+  };
+
+  const getSelected = () => getElements(state.selectedElementIds);
+
+  const select = (ids: string[]) => {
+    state = whiteboardReducer(state, { type: 'SELECT_ELEMENTS', ids });
+  };
+
+  // Applies a local change as one undoable step and hands it out to broadcast
+  const commitOps = (bodies: WhiteboardOpBody[]) => {
+    if (bodies.length === 0) return;
+    const ops = bodies.map(body => factory.create(body));
+    state = whiteboardReducer(state, { type: 'APPLY_OPS', ops, local: true });
+    onOps(ops);
+  };
+
+  // Undo/redo replay the inverse ops recorded for this user's own changes
+  const replayHistory = (type: 'UNDO' | 'REDO') => {
+    const stack = type === 'UNDO' ? state.undoStack : state.redoStack;
+    const entry = stack[stack.length - 1];
+    if (!entry) return;
+    const ops = entry.ops.map(body => factory.create(body));
+    state = whiteboardReducer(state, { type, ops });
+    onOps(ops);
+  };
+
+  // --- RENDERING ---
+
+  const getLiveScene = (): LiveScene => {
+    const { tool } = settings;
+    const selected = withTransform(getSelected());
+    // Highlight the element the select or eraser tool would act on
+    const hovered =
+      hoveredId && (tool === 'select' || tool === 'eraser') && !state.selectedElementIds.includes(hoveredId)
+        ? withTransform(getElements([hoveredId]))[0]
+        : undefined;
+    const groupMembers = editingGroupId ? withTransform(getGroupMembers(state.elements, editingGroupId)) : [];
+    const frame = tool === 'select' ? getSelectionFrame(selected) : null;
+
+    return {
+      elements: [...(transformDrag?.preview ?? []), ...(drawing ? [drawing] : [])],
+      overlay: {
+        text,
+        group: groupMembers.length > 0 ? unionBounds(groupMembers.map(getRotatedBounds)) : null,
+        hover: hovered
+          ? { outline: getElementOutline(hovered), color: tool === 'eraser' ? '#fa5252' : '#74c0fc' }
+          : null,
+        selection: frame ? { frame, handles: !selected.some(el => el.locked) } : null,
+        region,
+        eraser: tool === 'eraser' && eraserCursor ? { center: eraserCursor, radius: eraserRadius() } : null,
+        cursors,
+        now,
+      },
+    };
+  };
+
+  // Elements being transformed are drawn on the live layer; the erase
+  // preview only changes when something is actually erased
+  let previewInputs: unknown[] = [];
+  const refreshPreview = () => {
+    const inputs = [transformDrag?.originals, eraseDrag?.erasedIds, eraseDrag?.pieces];
+    if (inputs.every((input, i) => input === previewInputs[i])) return;
+    previewInputs = inputs;
+    renderer.setPreview(
+      transformDrag || eraseDrag
+        ? {
+            liveIds: transformDrag?.originals.map(el => el.id) ?? [],
+            erasedIds: eraseDrag?.erasedIds ?? [],
+            pieces: eraseDrag?.pieces ?? {},
+          }
+        : emptyPreview
+    );
+  };
+
+  const refresh = () => {
+    renderer.setBoard(state);
+    refreshPreview();
+    renderer.setLiveScene(getLiveScene());
+
+    const next: BoardSummary = {
+      selected: getSelected(),
+      layers: watchLayers ? state.elements : null,
+      canUndo: state.undoStack.length > 0,
+      canRedo: state.redoStack.length > 0,
+      hovering: settings.tool === 'select' && hoveredId !== null,
+    };
+    if (!summary || !sameSummary(summary, next)) {
+      summary = next;
+      onSummary(next);
+    }
+  };
+
+  // --- POINTER INPUT ---
+
+  // Extends an object or stroke erase along the pointer's path. Keeps
+  // `erasedIds` and `pieces` unchanged when nothing new is erased, so the
+  // base layer is only redrawn when the board actually changes.
+  const eraseAlong = (drag: EraseDrag, to: Point): EraseDrag => {
+    const radius = eraserRadius();
+    const erasedIds = new Set(drag.erasedIds);
+    const pieces = { ...drag.pieces };
+    let changed = false;
+    sampleEraserPath(drag.last, to, radius).forEach(center => {
+      elementsNear(center, radius).forEach(el => {
+        if (erasedIds.has(el.id) || !isElementInteractive(el)) return;
+        if (settings.eraserMode === 'split' && el.type === 'freehand') {
+          const current = pieces[el.id] ?? [getWorldPoints(el)];
+          const next = erasePieces(current, el.strokeWidth, center, radius);
+          if (next !== current) {
+            pieces[el.id] = next;
+            changed = true;
+          }
+        } else if (hitTestElement(el, center, radius)) {
+          erasedIds.add(el.id);
+          changed = true;
+        }
+      });
+    });
+    if (!changed) return { ...drag, last: to };
+    return { last: to, erasedIds: Array.from(erasedIds), pieces };
+  };
+
+  const startTransform = (mode: TransformDrag['mode'], start: Point, elements: WhiteboardElement[]) => {
+    const frame = getSelectionFrame(elements);
+    if (frame) transformDrag = { mode, start, frame, originals: elements, preview: elements };
+  };
+
+  const pointerDown = (sample: Point, shiftKey: boolean) => {
+    const point = withoutPressure(sample);
+    const { tool, color, strokeWidth } = settings;
+
+    // Select: transform handles, click-to-select and drag-to-move
+    if (tool === 'select') {
+      const selected = getSelected();
+      const locked = selected.some(el => el.locked);
+      const frame = getSelectionFrame(selected);
+      const handle = frame && !locked && hitTestHandle(frame, point, zoom());
+      if (handle) {
+        startTransform(handle, point, selected);
+        return;
+      }
+
+      const tolerance = getHitTolerance(zoom());
+      const hitElement = findElementAt(elementsNear(point, tolerance), point, tolerance);
+
+      // Unfilled shapes are picked by their outline, but once selected they
+      // can be dragged from anywhere inside
+      if (!hitElement && !shiftKey && !locked && selected.some(el => hitTestElement(el, point, tolerance, 'fill'))) {
+        startTransform('move', point, selected);
+        return;
+      }
+
+      if (!hitElement) {
+        if (!shiftKey) {
+          select([]);
+          editingGroupId = null;
+        }
+        region = { kind: settings.regionTool, points: [point], additive: shiftKey };
+        return;
+      }
+
+      // Clicking outside the entered group leaves it
+      if (editingGroupId && !getGroupIds(hitElement).includes(editingGroupId)) editingGroupId = null;
+
+      const hitIds = expandToGroups(state.elements, [hitElement.id], editingGroupId);
+      let ids = state.selectedElementIds;
+      if (shiftKey) {
+        ids = ids.includes(hitElement.id)
+          ? ids.filter(id => !hitIds.includes(id))
+          : Array.from(new Set([...ids, ...hitIds]));
+      } else if (!ids.includes(hitElement.id)) {
+        ids = hitIds;
+      }
+      select(ids);
+
+      if (ids.includes(hitElement.id)) {
+        const moving = getElements(ids).filter(el => !el.locked);
+        if (moving.length > 0) startTransform('move', point, moving);
+      }
+      return;
+    }
+
+    // Eraser: pixel masks are drawn like strokes, the other modes erase
+    // whatever the pointer passes over
+    if (tool === 'eraser') {
+      if (settings.eraserMode === 'mask') {
+        drawing = { id: createId(), type: 'eraser', points: [point], color: '#000000', strokeWidth: settings.eraserSize / zoom() };
+      } else {
+        eraseDrag = eraseAlong({ last: point, erasedIds: [], pieces: {} }, point);
+      }
+      return;
+    }
+
+    if (tool === 'freehand') {
+      drawing = { id: createId(), type: 'freehand', points: [sample], color, strokeWidth };
+    } else if (tool === 'rect' || tool === 'circle' || tool === 'arrow') {
+      drawing = { id: createId(), type: tool, points: [point], color, strokeWidth };
+    }
+  };
+
+  const pointerMove = (samples: Point[], shiftKey: boolean) => {
+    const point = withoutPressure(samples[samples.length - 1]);
+
+    if (transformDrag) {
+      const { mode, start, frame, originals } = transformDrag;
+      let next: WhiteboardElement[];
+      if (mode === 'move') {
+        next = moveElements(originals, point.x - start.x, point.y - start.y);
+      } else if (mode === 'rotate') {
+        let angle = getRotationAngle(frame, point) - getRotationAngle(frame, start);
+        if (shiftKey) angle = Math.round(angle / ROTATION_SNAP) * ROTATION_SNAP;
+        next = rotateElements(originals, frame, angle);
+      } else {
+        next = resizeElements(originals, frame, mode, point);
+      }
+      transformDrag = { ...transformDrag, preview: next };
+      return;
+    }
+
+    if (region) {
+      region = {
+        ...region,
+        points: region.kind === 'marquee' ? [region.points[0], point] : [...region.points, point],
+      };
+      return;
+    }
+
+    if (settings.tool === 'eraser') eraserCursor = point;
+
+    if (eraseDrag) {
+      eraseDrag = eraseAlong(eraseDrag, point);
+      return;
+    }
+
+    if (!drawing) {
+      if (settings.tool === 'select') {
+        const tolerance = getHitTolerance(zoom());
+        hoveredId = findElementAt(elementsNear(point, tolerance), point, tolerance)?.id ?? null;
+      } else if (settings.tool === 'eraser') {
+        const radius = eraserRadius();
+        hoveredId =
+          settings.eraserMode === 'mask'
+            ? null
+            : findElementAt(elementsNear(point, radius), point, radius, isElementInteractive)?.id ?? null;
+      }
+      return;
+    }
+
+    if (drawing.type === 'freehand' || drawing.type === 'eraser') {
+      const points = [...drawing.points];
+      samples.forEach(sample => points.push(smoothPoint(points[points.length - 1], sample, settings.streamline)));
+      drawing = { ...drawing, points };
+    } else {
+      drawing = { ...drawing, points: [drawing.points[0], point] };
+    }
+  };
+
+  const pointerUp = (sample: Point) => {
+    if (transformDrag) {
+      const geometryOf = (el: WhiteboardElement) => JSON.stringify([el.points, el.rotation || 0, el.fontSize]);
+      const originals = new Map(transformDrag.originals.map(el => [el.id, geometryOf(el)]));
+      commitOps(
+        transformDrag.preview
+          .filter(el => geometryOf(el) !== originals.get(el.id))
+          .map(el => ({
+            kind: 'update',
+            id: el.id,
+            updates: {
+              points: el.points,
+              rotation: el.rotation || 0,
+              ...(el.type === 'text' ? { fontSize: el.fontSize } : {}),
+            },
+          }))
+      );
+      transformDrag = null;
+    }
+
+    if (eraseDrag) {
+      const { erasedIds, pieces } = eraseDrag;
+      const cut = getElements(Object.keys(pieces));
+      commitOps([
+        ...(erasedIds.length > 0 ? [{ kind: 'delete' as const, ids: erasedIds }] : []),
+        ...splitStrokeOps(state.doc, cut, pieces),
+      ]);
+      eraseDrag = null;
+    }
+
+    if (region) {
+      const { kind, points, additive } = region;
+      const rect = kind === 'marquee' && points.length === 2 ? rectFromPoints(points[0], points[1]) : null;
+      const picked =
+        kind === 'marquee'
+          ? rect
+            ? selectInRect(elementsIn(rect), rect, settings.regionMode)
+            : []
+          : selectInPolygon(elementsIn(boundsFromPoints(points)), points, settings.regionMode);
+      const grouped = expandToGroups(state.elements, picked, editingGroupId);
+      select(additive ? Array.from(new Set([...state.selectedElementIds, ...grouped])) : grouped);
+      region = null;
+    }
+
+    if (drawing) {
+      const element =
+        drawing.type === 'freehand' || drawing.type === 'eraser'
+          ? {
+              ...drawing,
+              // End exactly at the pointer rather than at the trailing smoothed point
+              points: simplifyPoints([...drawing.points, sample], settings.simplifyTolerance / zoom()),
+            }
+          : drawing;
+      commitOps([addOp(state.doc, element)]);
+      drawing = null;
+    }
+  };
+
+  // Double-click enters the group under the pointer
+  const enterGroup = (point: Point) => {
+    if (settings.tool !== 'select') return;
+    const tolerance = getHitTolerance(zoom());
+    const hitElement = findElementAt(elementsNear(point, tolerance), point, tolerance);
+    const groupId = hitElement && getSelectableGroupId(hitElement, editingGroupId);
+    if (!groupId) return;
+    editingGroupId = groupId;
+    select(expandToGroups(state.elements, [hitElement.id], groupId));
+  };
+
+  const handlePointer = ({ phase, points, shiftKey }: PointerInput) => {
+    switch (phase) {
+      case 'down':
+        pointerDown(points[points.length - 1], shiftKey);
+        break;
+      case 'move':
+        pointerMove(points, shiftKey);
+        break;
+      case 'up':
+        pointerUp(points[points.length - 1]);
+        break;
+      // Drops whatever the pointer was doing without committing it
+      case 'cancel':
+        transformDrag = eraseDrag = region = drawing = null;
+        break;
+      case 'leave':
+        hoveredId = null;
+        eraserCursor = null;
+        break;
+      case 'double':
+        enterGroup(withoutPressure(points[points.length - 1]));
+        break;
+    }
+  };
+
+  // --- COMMANDS ---
+
+  const handleCommand = (command: SessionCommand) => {
+    const selected = getSelected();
+    switch (command.type) {
+      case 'undo':
+        replayHistory('UNDO');
+        break;
+      case 'redo':
+        replayHistory('REDO');
+        break;
+
+      case 'insert':
+        commitOps(addOps(state.doc, command.elements));
+        if (command.select) select(command.elements.map(el => el.id));
+        break;
+
+      case 'replace':
+        commitOps([{ kind: 'clear' }, ...addOps(state.doc, command.elements)]);
+        select([]);
+        break;
+
+      case 'clear':
+        commitOps([{ kind: 'clear' }]);
+        break;
+
+      case 'update':
+        commitOps([{ kind: 'update', id: command.id, updates: command.updates }]);
+        break;
+
+      case 'select-all':
+        select(state.elements.filter(isElementInteractive).map(el => el.id));
+        break;
+
+      case 'escape':
+        editingGroupId = null;
+        select([]);
+        break;
+
+      case 'select-layer': {
+        const { id, additive } = command;
+        const ids = state.selectedElementIds;
+        select(additive ? (ids.includes(id) ? ids.filter(other => other !== id) : [...ids, id]) : [id]);
+        break;
+      }
+
+      case 'move-layer':
+        commitOps(moveToIndexOps(state.doc, state.elements.map(el => el.id), command.id, command.index));
+        break;
+
+      case 'z-order':
+        commitOps(zOrderOps(state.doc, state.elements.map(el => el.id), state.selectedElementIds, command.command));
+        break;
+
+      case 'group':
+        commitOps(groupOps(selected, editingGroupId));
+        break;
+
+      case 'ungroup':
+        commitOps(ungroupOps(selected, editingGroupId));
+        break;
+
+      case 'restyle': {
+        const { updates } = command;
+        commitOps(
+          selected
+            .filter(el =>
+              'color' in updates
+                ? !el.locked && el.color !== updates.color
+                : !el.locked && el.type !== 'text' && el.strokeWidth !== updates.strokeWidth
+            )
+            .map(el => ({ kind: 'update', id: el.id, updates }))
+        );
+        break;
+      }
+
+      case 'toggle-locked': {
+        const locked = !selected.every(el => el.locked);
+        commitOps(selected.filter(el => !!el.locked !== locked).map(el => ({ kind: 'update', id: el.id, updates: { locked } })));
+        break;
+      }
+
+      case 'hide-selection':
+        commitOps(selected.map(el => ({ kind: 'update', id: el.id, updates: { hidden: true } })));
+        select([]);
+        break;
+
+      case 'delete-selection': {
+        const ids = selected.filter(el => !el.locked).map(el => el.id);
+        if (ids.length > 0) commitOps([{ kind: 'delete', ids }]);
+        break;
+      }
+    }
+  };
+
+  // Right-clicking an element selects it (with its group) for the context
+  // menu; locked elements can be targeted here so they can be unlocked again
+  const targetContextMenu = (point: Point): WhiteboardElement[] => {
+    const tolerance = getHitTolerance(zoom());
+    const hitElement =
+      settings.tool === 'select' || settings.tool === 'eraser'
+        ? findElementAt(elementsNear(point, tolerance), point, tolerance, el => !el.hidden)
+        : undefined;
+    if (!hitElement) return [];
+    const ids = state.selectedElementIds.includes(hitElement.id)
+      ? state.selectedElementIds
+      : expandToGroups(state.elements, [hitElement.id], editingGroupId);
+    select(ids);
+    return getElements(ids);
+  };
+
+  // --- INTERFACE ---
+
+  const handle = (input: SessionInput) => {
+    switch (input.type) {
+      case 'viewport':
+        viewport = input.viewport;
+        renderer.setViewport(viewport);
+        break;
+      case 'settings':
+        settings = input.settings;
+        break;
+      case 'pointer':
+        handlePointer(input.pointer);
+        break;
+      case 'ops':
+        input.ops.forEach(factory.observe);
+        state = whiteboardReducer(state, { type: 'APPLY_OPS', ops: input.ops, local: false });
+        break;
+      case 'merge':
+        factory.observe({ lamport: documentClock(input.doc) });
+        state = whiteboardReducer(state, { type: 'MERGE_DOCUMENT', doc: input.doc });
+        break;
+      case 'text':
+        text = input.text;
+        break;
+      case 'cursors':
+        cursors = input.cursors;
+        now = input.now;
+        break;
+      case 'layers':
+        watchLayers = input.watch;
+        break;
+      case 'command':
+        handleCommand(input.command);
+        break;
+    }
+    refresh();
+  };
+
+  const query = <Q extends SessionQuery>(q: Q): SessionAnswers[Q['type']] => {
+    const answer = (() => {
+      switch (q.type) {
+        case 'document':
+          return state.doc;
+        case 'elements':
+          return state.elements;
+        case 'export': {
+          // What an export of the scope contains; the visible area comes from the index
+          const { camera, width, height } = viewport;
+          const visible = getVisibleWorldBounds(camera, width, height);
+          const elements =
+            q.scope === 'selection' ? getSelected() : q.scope === 'viewport' ? elementsIn(visible) : state.elements;
+          return getExportContent(elements, q.scope, visible);
+        }
+        case 'context': {
+          const targets = targetContextMenu(q.point);
+          refresh();
+          return targets;
+        }
+      }
+    })();
+    return answer as SessionAnswers[Q['type']];
+  };
+
+  refresh();
+  return { handle, query };
+};
+
+export type BoardSession = ReturnType<typeof createBoardSession>;
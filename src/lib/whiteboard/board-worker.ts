@@ -0,0 +1,51 @@
+import { WhiteboardOp } from './ops';
+import { createLayeredRenderer } from './renderer';
+import {
+  BoardSession,
+  BoardSessionOptions,
+  BoardSummary,
+  SessionAnswers,
+  SessionInput,
+  SessionQuery,
+  createBoardSession,
+} from './board-session';
+
+// --- BOARD WORKER ---
+// Runs the board session off the main thread and draws it onto canvases
+// transferred from the main thread. The main thread posts pointer input, op
+// batches and commands, never elements; it gets back the ops to broadcast,
+// the summary its toolbar shows and the answers to its queries.
+
+export type BoardWorkerMessage =
+  | { type: 'init'; base: OffscreenCanvas; live: OffscreenCanvas; options: BoardSessionOptions }
+  | { type: 'input'; input: SessionInput }
+  | { type: 'query'; id: number; query: SessionQuery };
+
+export type BoardWorkerReply =
+  | { type: 'ops'; ops: WhiteboardOp[] }
+  | { type: 'summary'; summary: BoardSummary }
+  | { type: 'answer'; id: number; answer: SessionAnswers[keyof SessionAnswers] };
+
+const reply = (message: BoardWorkerReply) => self.postMessage(message);
+
+let session: BoardSession | null = null;
+
+self.addEventListener('message', (e: MessageEvent<BoardWorkerMessage>) => {
+  const message = e.data;
+  switch (message.type) {
+    case 'init':
+      session = createBoardSession(createLayeredRenderer(message.base, message.live), message.options, {
+        onOps: ops => reply({ type: 'ops', ops }),
+        onSummary: summary => reply({ type: 'summary', summary }),
+      });
+      break;
+
+    case 'input':
+      session?.handle(message.input);
+      break;
+
+    case 'query':
+      if (session) reply({ type: 'answer', id: message.id, answer: session.query(message.query) });
+      break;
+  }
+});
@@ -0,0 +1,67 @@
+import { BBox, Point } from './types';
+
+// --- CAMERA ---
+// The board is drawn as screen = (world + pan) * zoom, with `pan` in world
+// units. Every conversion between pointer, overlay and canvas coordinates
+// goes through these helpers so they can never disagree.
+
+export interface Camera {
+  zoom: number;
+  pan: Point;
+}
+
+export const MIN_ZOOM = 0.1;
+export const MAX_ZOOM = 5;
+export const ZOOM_STEP = 1.2;
+// Exponential zoom rates per wheel pixel. A mouse notch (~100px) zooms by
+// about one ZOOM_STEP; trackpad pinches arrive as ctrl+wheel events with
+// small deltas and need a faster rate.
+export const WHEEL_ZOOM_SPEED = 0.002;
+export const PINCH_ZOOM_SPEED = 0.01;
+
+export const clampZoom = (zoom: number) => Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom));
+
+export const screenToWorld = (camera: Camera, p: Point): Point => ({
+  x: p.x / camera.zoom - camera.pan.x,
+  y: p.y / camera.zoom - camera.pan.y,
+});
+
+export const worldToScreen = (camera: Camera, p: Point): Point => ({
+  x: (p.x + camera.pan.x) * camera.zoom,
+  y: (p.y + camera.pan.y) * camera.zoom,
+});
+
+// Sets the canvas transform so world coordinates can be drawn directly.
+export const applyCamera = (ctx: Pick<CanvasRenderingContext2D, 'scale' | 'translate'>, camera: Camera) => {
+  ctx.scale(camera.zoom, camera.zoom);
+  ctx.translate(camera.pan.x, camera.pan.y);
+};
+
+// Moves the view by a screen-space delta, e.g. a drag in pixels.
+export const panCamera = (camera: Camera, dx: number, dy: number): Camera => ({
+  zoom: camera.zoom,
+  pan: { x: camera.pan.x + dx / camera.zoom, y: camera.pan.y + dy / camera.zoom },
+});
+
+// Changes the zoom while keeping the world point under `anchor` (a screen
+// position) fixed, so zooming follows the pointer.
+export const zoomCameraAt = (camera: Camera, zoom: number, anchor: Point): Camera => {
+  const nextZoom = clampZoom(zoom);
+  const world = screenToWorld(camera, anchor);
+  return {
+    zoom: nextZoom,
+    pan: { x: anchor.x / nextZoom - world.x, y: anchor.y / nextZoom - world.y },
+  };
+};
+
+// World-space rectangle covered by a viewport of the given screen size.
+export const getVisibleWorldBounds = (camera: Camera, width: number, height: number): BBox => {
+  const topLeft = screenToWorld(camera, { x: 0, y: 0 });
+  return { x: topLeft.x, y: topLeft.y, width: width / camera.zoom, height: height / camera.zoom };
+};
+
+// Normalizes a wheel delta to pixels; Firefox reports lines for mouse wheels.
+export const getWheelDelta = (e: WheelEvent): Point => {
+  const scale = e.deltaMode === 1 ? 16 : e.deltaMode === 2 ? 800 : 1;
+  return { x: e.deltaX * scale, y: e.deltaY * scale };
+};
@@ -0,0 +1,144 @@
+import { WhiteboardElement } from './types';
+import { createId } from './ops';
+import { canvasToBlob, renderElementsToCanvas } from './render';
+import { remapGroupIds } from './groups';
+import { BOARD_FILE_MIME, elementSchema } from './board-file';
+import { getRotatedBounds, unionBounds } from './geometry';
+import { elementsToSvg } from './svg';
+
+// --- CLIPBOARD ---
+// Copied elements are written to the system clipboard several times: as a
+// PNG for docs and chat, as SVG for design tools where the browser can write
+// it, as HTML whose <img> carries the element JSON in a data attribute, and as
+// the element JSON in a web custom format where the browser supports one. Pasting into another board (or browser tab) reads that
+// JSON back and reproduces the elements with fresh ids. Plain-text JSON is
+// accepted too, for browsers that only allow writing text.
+
+// Custom formats are only readable through the async clipboard API, never
+// from a paste event's DataTransfer
+export const CLIPBOARD_FORMAT = `web ${BOARD_FILE_MIME}`;
+export const PASTE_OFFSET = 20;
+
+interface ClipboardPayload {
+  type: typeof BOARD_FILE_MIME;
+  version: 1;
+  elements: WhiteboardElement[];
+}
+
+export const serializeClipboard = (elements: WhiteboardElement[]): string =>
+  JSON.stringify({ type: BOARD_FILE_MIME, version: 1, elements } satisfies ClipboardPayload);
+
+// Pasted content reaches every participant, so elements that do not match
+// the board's schema are dropped
+export const parseClipboard = (text: string): WhiteboardElement[] | null => {
+  try {
+    const payload = JSON.parse(text) as ClipboardPayload;
+    if (payload?.type !== BOARD_FILE_MIME || !Array.isArray(payload.elements)) return null;
+    return payload.elements.flatMap(el => {
+      const result = elementSchema.safeParse(el);
+      return result.success ? [result.data as WhiteboardElement] : [];
+    });
+  } catch {
+    return null;
+  }
+};
+
+const escapeAttribute = (value: string) => value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+
+const buildClipboardHtml = (json: string, imageUrl: string) =>
+  `<img src="${imageUrl}" alt="Whiteboard elements" data-freeboard="${escapeAttribute(encodeURIComponent(json))}">`;
+
+const extractFromHtml = (html: string): WhiteboardElement[] | null => {
+  const match = html.match(/data-freeboard="([^"]*)"/);
+  if (!match) return null;
+  try {
+    return parseClipboard(decodeURIComponent(match[1].replace(/&quot;/g, '"').replace(/&amp;/g, '&')));
+  } catch {
+    return null;
+  }
+};
+
+// Elements carried by a paste event, or null if it holds anything else.
+export const readClipboardEvent = (data: DataTransfer | null): WhiteboardElement[] | null => {
+  if (!data) return null;
+  return extractFromHtml(data.getData('text/html')) ?? parseClipboard(data.getData('text/plain'));
+};
+
+// Elements in the clipboard's custom format, or null if it has none or the
+// browser does not allow reading it.
+export const readElementsFromClipboard = async (): Promise<WhiteboardElement[] | null> => {
+  if (!navigator.clipboard?.read) return null;
+  try {
+    const items = await navigator.clipboard.read();
+    const item = items.find(candidate => candidate.types.includes(CLIPBOARD_FORMAT));
+    if (!item) return null;
+    return parseClipboard(await (await item.getType(CLIPBOARD_FORMAT)).text());
+  } catch {
+    return null;
+  }
+};
+
+const supportsFormat = (type: string) =>
+  typeof ClipboardItem.supports === 'function' && ClipboardItem.supports(type);
+
+// Same framing as the PNG: the elements' bounds plus the stroke bleed and
+// padding, on white
+const buildClipboardSvg = (elements: WhiteboardElement[]) =>
+  elementsToSvg(elements, {
+    region: unionBounds(elements.map(getRotatedBounds)),
+    padding: 16 + Math.max(0, ...elements.map(el => el.strokeWidth / 2)),
+    background: '#ffffff',
+  });
+
+// Writes the elements to the system clipboard. Resolves to false if the
+// browser refused every format.
+export const writeElementsToClipboard = async (elements: WhiteboardElement[]): Promise<boolean> => {
+  const json = serializeClipboard(elements);
+  const canvas = renderElementsToCanvas(elements, { scale: 2, background: '#ffffff' });
+
+  if (typeof ClipboardItem !== 'undefined' && navigator.clipboard?.write) {
+    try {
+      const html = buildClipboardHtml(json, canvas.toDataURL('image/png'));
+      await navigator.clipboard.write([
+        new ClipboardItem({
+          'text/html': new Blob([html], { type: 'text/html' }),
+          'image/png': canvasToBlob(canvas),
+          ...(supportsFormat('image/svg+xml')
+            ? { 'image/svg+xml': new Blob([buildClipboardSvg(elements)], { type: 'image/svg+xml' }) }
+            : {}),
+          ...(supportsFormat(CLIPBOARD_FORMAT) ? { [CLIPBOARD_FORMAT]: new Blob([json], { type: BOARD_FILE_MIME }) } : {}),
+        }),
+      ]);
+      return true;
+    } catch {
+      // Fall through to plain text below.
+    }
+  }
+
+  try {
+    await navigator.clipboard.writeText(json);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Writes a rendered image on its own, without element data. Accepts the
+// image while it is still being encoded.
+export const writeImageToClipboard = async (image: Promise<Blob>, type = 'image/png'): Promise<boolean> => {
+  if (typeof ClipboardItem === 'undefined' || !navigator.clipboard?.write) return false;
+  try {
+    await navigator.clipboard.write([new ClipboardItem({ [type]: image })]);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Copies of `elements` with fresh ids, shifted by `offset` in both axes.
+export const cloneElements = (elements: WhiteboardElement[], offset: number): WhiteboardElement[] =>
+  remapGroupIds(elements).map(el => ({
+    ...el,
+    id: createId(),
+    points: el.points.map(p => ({ ...p, x: p.x + offset, y: p.y + offset })),
+  }));
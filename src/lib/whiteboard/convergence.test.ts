@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { checkConvergence } from './convergence';
+
+describe('checkConvergence', () => {
+  it.each(Array.from({ length: 10 }, (_, i) => i + 1))('converges with three clients (seed %i)', seed => {
+    const result = checkConvergence({ seed });
+    expect(result.converged).toBe(true);
+  });
+
+  it.each([1, 2, 3])('converges with six clients and long sessions (seed %i)', seed => {
+    const result = checkConvergence({ clients: 6, opsPerClient: 80, lateJoiners: 0, seed });
+    expect(result.converged).toBe(true);
+    expect(result.ops).toHaveLength(480);
+  });
+
+  it.each([1, 2, 3, 4, 5])('converges with clients joining from a snapshot halfway through (seed %i)', seed => {
+    const result = checkConvergence({ clients: 3, opsPerClient: 60, lateJoiners: 2, seed });
+    expect(result.converged).toBe(true);
+    expect(result.boards).toHaveLength(5);
+    // The joiners edited too, after merging the snapshot
+    expect(result.ops.filter(op => op.clientId === 'client-3' || op.clientId === 'client-4')).toHaveLength(60);
+  });
+});
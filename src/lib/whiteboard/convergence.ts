@@ -0,0 +1,198 @@
+import { WhiteboardElement } from './types';
+import { WhiteboardOp, WhiteboardOpBody, addOp, createOpFactory } from './ops';
+import { WhiteboardState, initialWhiteboardState, whiteboardReducer } from './reducer';
+import { BoardDocument, documentClock, positionAt } from './crdt';
+
+// --- CONVERGENCE CHECK ---
+// Runs several simulated clients in-process. Each client edits its own
+// replica or undoes and redoes its own changes (sometimes after receiving a
+// few remote ops), then every replica receives all ops it has not seen in a
+// shuffled order. Remote ops go through a JSON round-trip, as they do over the
+// socket. Late joiners start halfway through: like a client joining a
+// meeting, they never receive the ops sent before they joined, only the
+// snapshots every earlier client answers with, merged whenever they arrive
+// while new ops keep coming in. The check passes when all replicas end up
+// with identical boards.
+// convergence.test.ts runs it over several seeds; it is not part of the app.
+
+export interface ConvergenceOptions {
+  clients?: number;
+  opsPerClient?: number;
+  // Clients that join halfway through from a peer's snapshot
+  lateJoiners?: number;
+  seed?: number;
+}
+
+export interface ConvergenceResult {
+  converged: boolean;
+  boards: WhiteboardElement[][];
+  ops: WhiteboardOp[];
+}
+
+// Small seeded PRNG (mulberry32) so a failing run can be replayed.
+export const createRandom = (seed: number) => {
+  let t = seed >>> 0;
+  return () => {
+    t = (t + 0x6d2b79f5) >>> 0;
+    let r = Math.imul(t ^ (t >>> 15), 1 | t);
+    r = (r + Math.imul(r ^ (r >>> 7), 61 | r)) ^ r;
+    return ((r ^ (r >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const shuffle = <T>(items: T[], random: () => number): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+const COLORS = ['#1e1e1e', '#e03131', '#2f9e44', '#1971c2'];
+
+const randomEdit = (
+  state: WhiteboardState,
+  clientIndex: number,
+  step: number,
+  random: () => number
+): WhiteboardOpBody => {
+  const pick = () => state.elements[Math.floor(random() * state.elements.length)];
+  const roll = random();
+
+  if (state.elements.length === 0 || roll < 0.35) {
+    const x = Math.round(random() * 500);
+    const y = Math.round(random() * 500);
+    return addOp(state.doc, {
+      id: `c${clientIndex}-e${step}`,
+      type: 'rect',
+      points: [{ x, y }, { x: x + 40, y: y + 30 }],
+      color: COLORS[Math.floor(random() * COLORS.length)],
+      strokeWidth: 2,
+    });
+  }
+  if (roll < 0.5) {
+    const dx = Math.round(random() * 20);
+    const target = pick();
+    return {
+      kind: 'update',
+      id: target.id,
+      updates: { points: target.points.map(p => ({ x: p.x + dx, y: p.y })) },
+    };
+  }
+  if (roll < 0.6) {
+    return { kind: 'update', id: pick().id, updates: { color: COLORS[Math.floor(random() * COLORS.length)] } };
+  }
+  if (roll < 0.7) {
+    // Fields no element starts with, so undoing them has to unset them
+    const target = pick();
+    return {
+      kind: 'update',
+      id: target.id,
+      updates: { locked: !target.locked, rotation: random() * Math.PI, groupIds: [`g${clientIndex}-${step}`] },
+    };
+  }
+  if (roll < 0.85) {
+    const target = pick();
+    const index = Math.floor(random() * state.elements.length);
+    return { kind: 'reorder', id: target.id, position: positionAt(state.doc, index, target.id) };
+  }
+  if (roll < 0.98) {
+    return { kind: 'delete', ids: [pick().id] };
+  }
+  return { kind: 'clear' };
+};
+
+// Field order inside an element depends on delivery order, so compare with
+// sorted keys.
+const canonical = (board: WhiteboardElement[]): string =>
+  JSON.stringify(board.map(el => Object.fromEntries(Object.entries(el).sort(([a], [b]) => (a < b ? -1 : 1)))));
+
+export const checkConvergence = ({
+  clients = 3,
+  opsPerClient = 40,
+  lateJoiners = 1,
+  seed = 1,
+}: ConvergenceOptions = {}): ConvergenceResult => {
+  const random = createRandom(seed);
+  const factories = Array.from({ length: clients + lateJoiners }, (_, i) => createOpFactory(`client-${i}`));
+  const replicas = factories.map(() => initialWhiteboardState);
+  const delivered = factories.map(() => new Set<string>());
+  const log: WhiteboardOp[] = [];
+  const joinStep = Math.floor(opsPerClient / 2);
+
+  // Where in the log each client's deliveries start
+  const joinedAt = factories.map(() => 0);
+  // Snapshots sent to a joiner that have not reached it yet
+  const pending: BoardDocument[][] = factories.map(() => []);
+
+  const deliver = (index: number, op: WhiteboardOp) => {
+    const key = `${op.clientId}:${op.seq}`;
+    if (delivered[index].has(key)) return;
+    delivered[index].add(key);
+    factories[index].observe(op);
+    const received = JSON.parse(JSON.stringify(op)) as WhiteboardOp;
+    replicas[index] = whiteboardReducer(replicas[index], { type: 'APPLY_OPS', ops: [received], local: false });
+  };
+
+  // Ops a client made itself are already applied to its own replica
+  const send = (index: number, op: WhiteboardOp) => {
+    delivered[index].add(`${op.clientId}:${op.seq}`);
+    log.push(op);
+  };
+
+  const receiveSnapshots = (index: number, all: boolean) => {
+    pending[index] = pending[index].filter(doc => {
+      if (!all && random() < 0.5) return true;
+      factories[index].observe({ lamport: documentClock(doc) });
+      replicas[index] = whiteboardReducer(replicas[index], { type: 'MERGE_DOCUMENT', doc });
+      return false;
+    });
+  };
+
+  for (let step = 0; step < opsPerClient; step++) {
+    if (step === joinStep) {
+      for (let index = clients; index < factories.length; index++) {
+        joinedAt[index] = log.length;
+        pending[index] = replicas
+          .slice(0, clients)
+          .map(replica => JSON.parse(JSON.stringify(replica.doc)) as BoardDocument);
+      }
+    }
+    const active = factories.map((_, i) => i).filter(i => i < clients || step >= joinStep);
+    shuffle(active, random).forEach(index => {
+      // Receive a random subset of what others already sent.
+      receiveSnapshots(index, false);
+      log
+        .slice(joinedAt[index])
+        .filter(() => random() < 0.3)
+        .forEach(op => deliver(index, op));
+
+      const replica = replicas[index];
+      const roll = random();
+      const history = roll < 0.15 ? replica.undoStack : roll < 0.25 ? replica.redoStack : null;
+      if (history?.length) {
+        const ops = history[history.length - 1].ops.map(body => factories[index].create(body));
+        replicas[index] = whiteboardReducer(replica, { type: roll < 0.15 ? 'UNDO' : 'REDO', ops });
+        ops.forEach(op => send(index, op));
+        return;
+      }
+      const op = factories[index].create(randomEdit(replica, index, step, random));
+      replicas[index] = whiteboardReducer(replica, { type: 'APPLY_OPS', ops: [op], local: true });
+      send(index, op);
+    });
+  }
+
+  replicas.forEach((_, index) => {
+    receiveSnapshots(index, true);
+    shuffle(log.slice(joinedAt[index]), random).forEach(op => deliver(index, op));
+  });
+
+  const boards = replicas.map(replica => replica.elements);
+  const reference = canonical(boards[0]);
+  return {
+    converged: boards.every(board => canonical(board) === reference),
+    boards,
+    ops: log,
+  };
+};
@@ -0,0 +1,284 @@
+import { WhiteboardElement } from './types';
+
+// --- CRDT DOCUMENT ---
+// The board is stored as a set of element records. Every field of a record is
+// a last-writer-wins register stamped with a Lamport clock, z-order is an
+// ordered list built from fractional position keys, and deletion is itself a
+// register so it can be reverted. Merging any two registers only depends on
+// their clocks, so replicas converge no matter in which order ops arrive.
+// A field is unset by writing null to it: unlike undefined, null survives the
+// JSON that ops travel as, and the register keeps a clock to merge by.
+
+export interface Clock {
+  lamport: number;
+  clientId: string;
+}
+
+export interface Register<T> {
+  value: T;
+  clock: Clock;
+}
+
+type ElementFields = Omit<WhiteboardElement, 'id'>;
+
+export interface ElementRecord {
+  id: string;
+  fields: { [K in keyof ElementFields]?: Register<ElementFields[K]> };
+  position: Register<string>;
+  deleted: Register<boolean>;
+}
+
+export interface BoardDocument {
+  records: Record<string, ElementRecord>;
+  // Every element whose existence is older than this clock is cleared.
+  clearedAt: Clock | null;
+}
+
+export const emptyDocument: BoardDocument = { records: {}, clearedAt: null };
+
+export const compareClocks = (a: Clock, b: Clock): number => {
+  if (a.lamport !== b.lamport) return a.lamport - b.lamport;
+  if (a.clientId === b.clientId) return 0;
+  return a.clientId < b.clientId ? -1 : 1;
+};
+
+const mergeRegister = <T>(current: Register<T> | undefined, incoming: Register<T>): Register<T> =>
+  !current || compareClocks(incoming.clock, current.clock) > 0 ? incoming : current;
+
+// --- FRACTIONAL POSITIONS ---
+// Keys are an integer part followed by a fraction, both in base 62, and sort
+// as plain strings. The first character of the integer part encodes its
+// length ('a' is one digit, 'b' two, ..., 'Z' one digit below zero), so
+// appending or prepending only steps the integer and keeps keys short; only
+// inserts between two neighbours extend the fraction.
+
+const DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+const ZERO = DIGITS[0];
+const LAST = DIGITS[DIGITS.length - 1];
+
+// Returns a fraction strictly between `a` and `b` ('' is the start, null the end).
+const midpoint = (a: string, b: string | null): string => {
+  if (b !== null) {
+    let n = 0;
+    while ((a[n] || ZERO) === b[n]) n++;
+    if (n > 0) return b.slice(0, n) + midpoint(a.slice(n), b.slice(n));
+  }
+  const digitA = a ? DIGITS.indexOf(a[0]) : 0;
+  const digitB = b !== null ? DIGITS.indexOf(b[0]) : DIGITS.length;
+  if (digitB - digitA > 1) {
+    return DIGITS[Math.round((digitA + digitB) / 2)];
+  }
+  if (b !== null && b.length > 1) return b.slice(0, 1);
+  return DIGITS[digitA] + midpoint(a.slice(1), null);
+};
+
+const integerLength = (head: string): number =>
+  head >= 'a' ? head.charCodeAt(0) - 'a'.charCodeAt(0) + 2 : 'Z'.charCodeAt(0) - head.charCodeAt(0) + 2;
+
+const integerPart = (key: string): string => key.slice(0, integerLength(key[0]));
+
+// The next integer, or null past the largest one
+const incrementInteger = (integer: string): string | null => {
+  const [head, ...digits] = integer.split('');
+  for (let i = digits.length - 1; i >= 0; i--) {
+    if (digits[i] !== LAST) {
+      digits[i] = DIGITS[DIGITS.indexOf(digits[i]) + 1];
+      return head + digits.join('');
+    }
+    digits[i] = ZERO;
+  }
+  if (head === 'z') return null;
+  if (head === 'Z') return `a${ZERO}`;
+  const nextHead = String.fromCharCode(head.charCodeAt(0) + 1);
+  if (nextHead > 'a') digits.push(ZERO);
+  else digits.pop();
+  return nextHead + digits.join('');
+};
+
+// The previous integer, or null below the smallest one
+const decrementInteger = (integer: string): string | null => {
+  const [head, ...digits] = integer.split('');
+  for (let i = digits.length - 1; i >= 0; i--) {
+    if (digits[i] !== ZERO) {
+      digits[i] = DIGITS[DIGITS.indexOf(digits[i]) - 1];
+      return head + digits.join('');
+    }
+    digits[i] = LAST;
+  }
+  if (head === 'A') return null;
+  if (head === 'a') return `Z${LAST}`;
+  const previousHead = String.fromCharCode(head.charCodeAt(0) - 1);
+  if (previousHead < 'Z') digits.push(LAST);
+  else digits.pop();
+  return previousHead + digits.join('');
+};
+
+const keyBetween = (before: string | null, after: string | null): string => {
+  if (before === null && after === null) return `a${ZERO}`;
+
+  if (before === null) {
+    const integer = integerPart(after);
+    if (integer.length < after.length) return integer;
+    const previous = decrementInteger(integer);
+    if (previous === null) throw new Error('No position key before the first one');
+    return previous;
+  }
+
+  const integer = integerPart(before);
+  const fraction = before.slice(integer.length);
+  if (after === null) {
+    return incrementInteger(integer) ?? integer + midpoint(fraction, null);
+  }
+  const afterInteger = integerPart(after);
+  if (integer === afterInteger) return integer + midpoint(fraction, after.slice(afterInteger.length));
+  const next = incrementInteger(integer);
+  return next !== null && next < after ? next : integer + midpoint(fraction, null);
+};
+
+// Returns a key strictly between `before` and `after` (null for either end).
+export const positionBetween = (before: string | null, after: string | null): string => {
+  if (before !== null && after !== null && before >= after) {
+    // Concurrent inserts can produce equal keys; fall back to appending.
+    return keyBetween(before, null);
+  }
+  return keyBetween(before, after);
+};
+
+// --- READING ---
+
+export const isVisible = (doc: BoardDocument, record: ElementRecord): boolean => {
+  if (doc.clearedAt && compareClocks(doc.clearedAt, record.deleted.clock) > 0) return false;
+  return !record.deleted.value;
+};
+
+const compareRecords = (a: ElementRecord, b: ElementRecord): number => {
+  if (a.position.value !== b.position.value) return a.position.value < b.position.value ? -1 : 1;
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+};
+
+export const visibleRecords = (doc: BoardDocument): ElementRecord[] =>
+  Object.values(doc.records)
+    .filter(record => isVisible(doc, record) && record.fields.type)
+    .sort(compareRecords);
+
+export const materializeRecord = (record: ElementRecord): WhiteboardElement => {
+  const element = { id: record.id } as WhiteboardElement;
+  for (const [key, register] of Object.entries(record.fields)) {
+    if (register.value !== null) element[key] = register.value;
+  }
+  return element;
+};
+
+export const materialize = (doc: BoardDocument): WhiteboardElement[] => visibleRecords(doc).map(materializeRecord);
+
+// Position key that places an element at `index` in the visible z-order.
+export const positionAt = (doc: BoardDocument, index: number, excludeId?: string): string => {
+  const ordered = visibleRecords(doc).filter(record => record.id !== excludeId);
+  const clamped = Math.max(0, Math.min(index, ordered.length));
+  const before = clamped > 0 ? ordered[clamped - 1].position.value : null;
+  const after = clamped < ordered.length ? ordered[clamped].position.value : null;
+  return positionBetween(before, after);
+};
+
+// --- WRITING ---
+
+const toRegisters = (values: Partial<ElementFields>, clock: Clock): ElementRecord['fields'] => {
+  const fields: ElementRecord['fields'] = {};
+  for (const [key, value] of Object.entries(values)) {
+    if (key === 'id') continue;
+    fields[key] = { value: value ?? null, clock };
+  }
+  return fields;
+};
+
+const mergeFields = (current: ElementRecord['fields'], incoming: ElementRecord['fields']) => {
+  const merged: Record<string, Register<unknown>> = { ...current };
+  for (const [key, register] of Object.entries(incoming)) {
+    merged[key] = mergeRegister(merged[key], register as Register<unknown>);
+  }
+  return merged as ElementRecord['fields'];
+};
+
+type RecordPatch = Partial<Pick<ElementRecord, 'fields' | 'position' | 'deleted'>>;
+
+const mergeRecord = (current: ElementRecord | undefined, id: string, patch: RecordPatch): ElementRecord => {
+  const base: ElementRecord = current ?? {
+    id,
+    fields: {},
+    position: { value: '', clock: { lamport: 0, clientId: '' } },
+    deleted: { value: false, clock: { lamport: 0, clientId: '' } },
+  };
+  return {
+    id,
+    fields: patch.fields ? mergeFields(base.fields, patch.fields) : base.fields,
+    position: patch.position ? mergeRegister(base.position, patch.position) : base.position,
+    deleted: patch.deleted ? mergeRegister(base.deleted, patch.deleted) : base.deleted,
+  };
+};
+
+// The records are copied once per call, however many ids it touches
+const upsertRecords = (doc: BoardDocument, ids: string[], patch: RecordPatch): BoardDocument => {
+  const records = { ...doc.records };
+  ids.forEach(id => {
+    records[id] = mergeRecord(records[id], id, patch);
+  });
+  return { ...doc, records };
+};
+
+const upsertRecord = (doc: BoardDocument, id: string, patch: RecordPatch): BoardDocument =>
+  upsertRecords(doc, [id], patch);
+
+export const addElement = (doc: BoardDocument, element: WhiteboardElement, position: string, clock: Clock) =>
+  upsertRecord(
+    doc,
+    element.id,
+    {
+      fields: toRegisters(element, clock),
+      position: { value: position, clock },
+      deleted: { value: false, clock },
+    }
+  );
+
+export const updateElement = (
+  doc: BoardDocument,
+  id: string,
+  updates: Partial<WhiteboardElement>,
+  clock: Clock
+) => upsertRecord(doc, id, { fields: toRegisters(updates, clock) });
+
+export const setDeleted = (doc: BoardDocument, ids: string[], deleted: boolean, clock: Clock) =>
+  upsertRecords(doc, ids, { deleted: { value: deleted, clock } });
+
+export const moveElement = (doc: BoardDocument, id: string, position: string, clock: Clock) =>
+  upsertRecord(doc, id, { position: { value: position, clock } });
+
+export const clearDocument = (doc: BoardDocument, clock: Clock): BoardDocument => ({
+  ...doc,
+  clearedAt: doc.clearedAt && compareClocks(doc.clearedAt, clock) > 0 ? doc.clearedAt : clock,
+});
+
+// --- SYNCING ---
+
+// Merges a whole replica into `doc`, register by register, so a snapshot
+// from a peer can be applied at any time, before or after the ops it holds.
+// Snapshots of large boards hold tens of thousands of records, so they are
+// merged into a single copy as well.
+export const mergeDocuments = (doc: BoardDocument, incoming: BoardDocument): BoardDocument => {
+  const records = { ...doc.records };
+  Object.values(incoming.records).forEach(record => {
+    records[record.id] = mergeRecord(records[record.id], record.id, record);
+  });
+  const merged = { ...doc, records };
+  return incoming.clearedAt ? clearDocument(merged, incoming.clearedAt) : merged;
+};
+
+// Highest Lamport time in the document, which local clocks must move past
+export const documentClock = (doc: BoardDocument): number =>
+  Object.values(doc.records).reduce(
+    (max, record) =>
+      Object.values(record.fields).reduce(
+        (fieldMax, register) => Math.max(fieldMax, register.clock.lamport),
+        Math.max(max, record.position.clock.lamport, record.deleted.clock.lamport)
+      ),
+    doc.clearedAt?.lamport ?? 0
+  );
@@ -0,0 +1,111 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { JSDOM } from 'jsdom';
+import { WhiteboardElement } from './types';
+import { importDrawio, isDrawioFile } from './drawio';
+
+// A rectangle and an ellipse joined by an orthogonal edge with two waypoints
+const model = `<mxGraphModel><root>
+  <mxCell id="0"/>
+  <mxCell id="1" parent="0"/>
+  <mxCell id="a" value="Start" style="rounded=0;whiteSpace=wrap;html=1;" vertex="1" parent="1">
+    <mxGeometry x="0" y="0" width="120" height="60" as="geometry"/>
+  </mxCell>
+  <mxCell id="b" value="End" style="ellipse;whiteSpace=wrap;html=1;strokeColor=#6c8ebf;" vertex="1" parent="1">
+    <mxGeometry x="300" y="200" width="80" height="80" as="geometry"/>
+  </mxCell>
+  <mxCell id="e" style="edgeStyle=orthogonalEdgeStyle;rounded=1;html=1;" edge="1" parent="1" source="a" target="b">
+    <mxGeometry relative="1" as="geometry">
+      <Array as="points"><mxPoint x="200" y="30"/><mxPoint x="200" y="240"/></Array>
+    </mxGeometry>
+  </mxCell>
+</root></mxGraphModel>`;
+
+const secondPage = '<diagram id="p2" name="Page-2"><mxGraphModel><root><mxCell id="0"/></root></mxGraphModel></diagram>';
+
+// As diagrams.net stores compressed pages: URI-encoded, raw deflate, base64
+const compress = async (xml: string) => {
+  const stream = new Blob([encodeURIComponent(xml)]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  const bytes = new Uint8Array(await new Response(stream).arrayBuffer());
+  return btoa(String.fromCharCode(...bytes));
+};
+
+// The diagram spans 0..380 x 0..280, so centering it here leaves it in place
+const center = { x: 190, y: 140 };
+
+// Ids are generated on every import
+const withoutIds = (elements: WhiteboardElement[]) =>
+  elements.map(({ id: _id, groupIds, ...rest }) => ({ ...rest, groups: groupIds?.length ?? 0 }));
+
+// Node has everything the importer needs except the browser's XML parser
+beforeAll(() => {
+  vi.stubGlobal('DOMParser', new JSDOM().window.DOMParser);
+});
+
+describe('importDrawio', () => {
+  it('imports an uncompressed file', async () => {
+    const result = await importDrawio(`<mxfile><diagram id="p1" name="Page-1">${model}</diagram>${secondPage}</mxfile>`, center);
+    if (result.ok === false) throw new Error(result.error);
+    expect(result.pages).toBe(2);
+
+    const { elements } = result;
+    expect(elements.map(el => el.type)).toEqual(['rect', 'text', 'circle', 'text', 'freehand', 'freehand', 'arrow']);
+    expect(elements.map(el => (el.type === 'text' ? el.text : null)).filter(Boolean)).toEqual(['Start', 'End']);
+    expect(elements[0].points).toEqual([{ x: 0, y: 0 }, { x: 120, y: 60 }]);
+    expect(elements[2]).toMatchObject({ color: '#6c8ebf', points: [{ x: 340, y: 240 }, { x: 380, y: 240 }] });
+
+    // One straight segment per leg, leaving and entering the shapes' outlines
+    expect(elements.slice(4).map(el => el.points)).toEqual([
+      [{ x: 120, y: 30 }, { x: 200, y: 30 }],
+      [{ x: 200, y: 30 }, { x: 200, y: 240 }],
+      [{ x: 200, y: 240 }, { x: 300, y: 240 }],
+    ]);
+
+    // The whole diagram is one group, with the edge's segments grouped inside
+    const outer = elements[0].groupIds!.at(-1);
+    expect(elements.every(el => el.groupIds?.at(-1) === outer)).toBe(true);
+    const edgeGroups = elements.slice(4).map(el => el.groupIds);
+    expect(new Set(edgeGroups.map(groups => groups!.join()))).toHaveProperty('size', 1);
+    expect(edgeGroups[0]).toHaveLength(2);
+  });
+
+  it('imports a bare graph model', async () => {
+    const result = await importDrawio(model, center);
+    expect(result).toMatchObject({ ok: true, pages: 1 });
+  });
+
+  it('imports a compressed file like its uncompressed form', async () => {
+    const plain = await importDrawio(`<mxfile><diagram id="p1">${model}</diagram>${secondPage}</mxfile>`, center);
+    const compressed = await importDrawio(
+      `<mxfile><diagram id="p1">${await compress(model)}</diagram>${secondPage}</mxfile>`,
+      center
+    );
+    if (plain.ok === false || compressed.ok === false) throw new Error('import failed');
+    expect(compressed.pages).toBe(2);
+    expect(withoutIds(compressed.elements)).toEqual(withoutIds(plain.elements));
+  });
+
+  it('moves the diagram to the center it is given', async () => {
+    const result = await importDrawio(model, { x: 1190, y: 40 });
+    if (result.ok === false) throw new Error(result.error);
+    expect(result.elements[0].points).toEqual([{ x: 1000, y: -100 }, { x: 1120, y: -40 }]);
+  });
+
+  it.each([
+    { name: 'a compressed page that does not inflate', text: '<mxfile><diagram>bm90IGRlZmxhdGU=</diagram></mxfile>', error: 'The diagram could not be decompressed' },
+    { name: 'XML of another app', text: '<svg xmlns="http://www.w3.org/2000/svg"/>', error: 'The file is not a draw.io diagram' },
+    { name: 'malformed XML', text: '<mxfile><diagram>', error: 'The file is not a draw.io diagram' },
+  ])('rejects $name', async ({ text, error }) => {
+    expect(await importDrawio(text, center)).toEqual({ ok: false, error });
+  });
+});
+
+describe('isDrawioFile', () => {
+  it.each([
+    { name: 'diagram.drawio', text: '', expected: true },
+    { name: 'export.XML', text: '', expected: true },
+    { name: 'diagram.txt', text: '  <mxfile host="app.diagrams.net">', expected: true },
+    { name: 'drawing.excalidraw', text: '{"type": "excalidraw"}', expected: false },
+  ])('$name is $expected', ({ name, text, expected }) => {
+    expect(isDrawioFile(name, text)).toBe(expected);
+  });
+});
@@ -0,0 +1,366 @@
+import { BBox, Point, WhiteboardElement } from './types';
+import { getBoundsCenter, getElementBounds, unionBounds } from './geometry';
+import { createId } from './ops';
+
+// --- DRAW.IO ---
+// Reads diagrams.net (`.drawio`) files into board elements. A file holds one
+// mxGraphModel per page, stored either as XML or compressed (raw deflate,
+// base64, URI-encoded); only the first page is imported. Vertices become
+// rectangles or circles with their labels as centered text, edges become
+// arrows, and the whole diagram is returned as one group. Shapes the board
+// has no equivalent for are drawn as their bounding rectangle. Edges are
+// drawn straight between their waypoints, one grouped segment each, so
+// curved and rounded edge styles come out as corners.
+
+export const DRAWIO_EXTENSIONS = ['.drawio', '.xml'];
+
+const DEFAULT_FONT_SIZE = 12;
+const DEFAULT_COLOR = '#000000';
+// Space between a label and the edge of its shape when aligned to a side
+const LABEL_SPACING = 4;
+
+interface DrawioCell {
+  id: string;
+  parent: string | null;
+  label: string;
+  style: Record<string, string>;
+  vertex: boolean;
+  edge: boolean;
+  source: string | null;
+  target: string | null;
+  geometry: Element | null;
+}
+
+// "ellipse;whiteSpace=wrap;strokeColor=#6c8ebf" -> { ellipse: '1', whiteSpace: 'wrap', ... }
+const parseStyle = (style: string): Record<string, string> => {
+  const result: Record<string, string> = {};
+  style.split(';').forEach(part => {
+    if (!part) return;
+    const eq = part.indexOf('=');
+    if (eq === -1) result[part] = '1';
+    else result[part.slice(0, eq)] = part.slice(eq + 1);
+  });
+  return result;
+};
+
+const getShape = (style: Record<string, string>) =>
+  style.shape ?? ['ellipse', 'doubleEllipse', 'text', 'edgeLabel', 'group'].find(name => style[name]) ?? 'rectangle';
+
+const getColor = (value: string | undefined, fallback: string) =>
+  !value || value === 'default' ? fallback : value;
+
+const getNumber = (value: string | null | undefined, fallback: number) => {
+  const n = Number(value);
+  return value != null && value !== '' && Number.isFinite(n) ? n : fallback;
+};
+
+// Labels with html=1 are markup; line breaks survive as newlines
+const getLabelText = (value: string, html: boolean): string => {
+  if (!html) return value.trim();
+  const markup = value.replace(/<br\s*\/?>/gi, '\n').replace(/<\/(div|p|li)>/gi, '\n');
+  const text = new DOMParser().parseFromString(markup, 'text/html').body.textContent ?? '';
+  return text.replace(/\u00a0/g, ' ').trim();
+};
+
+// --- PARSING ---
+
+const decodeDiagram = async (data: string): Promise<string> => {
+  const bytes = Uint8Array.from(atob(data.trim()), c => c.charCodeAt(0));
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return decodeURIComponent(await new Response(stream).text());
+};
+
+const parseXml = (text: string): Document | null => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  return doc.getElementsByTagName('parsererror').length > 0 ? null : doc;
+};
+
+// The first page's model, and how many pages the file has
+const readModel = async (text: string): Promise<{ model: Element; pages: number } | null> => {
+  const doc = parseXml(text);
+  if (!doc) return null;
+  if (doc.documentElement.tagName === 'mxGraphModel') return { model: doc.documentElement, pages: 1 };
+
+  const diagrams = Array.from(doc.getElementsByTagName('diagram'));
+  if (diagrams.length === 0) return null;
+  const inline = diagrams[0].getElementsByTagName('mxGraphModel')[0];
+  if (inline) return { model: inline, pages: diagrams.length };
+
+  const decoded = parseXml(await decodeDiagram(diagrams[0].textContent ?? ''));
+  return decoded?.documentElement.tagName === 'mxGraphModel'
+    ? { model: decoded.documentElement, pages: diagrams.length }
+    : null;
+};
+
+// Cells with custom properties are wrapped in <object> or <UserObject>,
+// which then carry the id and label
+const readCells = (model: Element): DrawioCell[] =>
+  Array.from(model.getElementsByTagName('mxCell')).map(cell => {
+    const wrapper = cell.parentElement?.tagName === 'root' ? null : cell.parentElement;
+    const style = parseStyle(cell.getAttribute('style') ?? '');
+    const value = wrapper?.getAttribute('label') ?? cell.getAttribute('value') ?? '';
+    return {
+      id: wrapper?.getAttribute('id') ?? cell.getAttribute('id') ?? '',
+      parent: cell.getAttribute('parent'),
+      label: getLabelText(value, style.html === '1'),
+      style,
+      vertex: cell.getAttribute('vertex') === '1',
+      edge: cell.getAttribute('edge') === '1',
+      source: cell.getAttribute('source'),
+      target: cell.getAttribute('target'),
+      geometry: Array.from(cell.children).find(child => child.getAttribute('as') === 'geometry') ?? null,
+    };
+  });
+
+const readPoint = (el: Element | null | undefined): Point | null =>
+  el ? { x: getNumber(el.getAttribute('x'), 0), y: getNumber(el.getAttribute('y'), 0) } : null;
+
+const findPoint = (geometry: Element | null, as: string) =>
+  readPoint(geometry && Array.from(geometry.children).find(child => child.getAttribute('as') === as));
+
+// --- CONVERSION ---
+
+// Where the line from the center of `box` towards `toward` leaves the box
+const clipToBox = (box: BBox, toward: Point): Point => {
+  const center = getBoundsCenter(box);
+  const dx = toward.x - center.x;
+  const dy = toward.y - center.y;
+  if (dx === 0 && dy === 0) return center;
+  const t = Math.min(dx ? box.width / 2 / Math.abs(dx) : Infinity, dy ? box.height / 2 / Math.abs(dy) : Infinity);
+  return { x: center.x + dx * Math.min(t, 1), y: center.y + dy * Math.min(t, 1) };
+};
+
+const midpointOfPath = (points: Point[]): Point => {
+  const i = Math.floor((points.length - 1) / 2);
+  const a = points[i];
+  const b = points[Math.min(i + 1, points.length - 1)];
+  return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+};
+
+interface LabelStyle {
+  fontSize: number;
+  color: string;
+  align: string;
+  verticalAlign: string;
+  rotation?: number;
+}
+
+// One text element per line, placed inside `box` as draw.io aligns them
+const labelElements = (text: string, box: BBox, style: LabelStyle, groupIds: string[]): WhiteboardElement[] => {
+  const lines = text.split('\n').map(line => line.trim()).filter(Boolean);
+  const measured = lines.map(line => {
+    const bounds = getElementBounds({
+      id: '',
+      type: 'text',
+      points: [{ x: 0, y: 0 }],
+      color: style.color,
+      strokeWidth: 1,
+      text: line,
+      fontSize: style.fontSize,
+    });
+    return { line, width: bounds.width, ascent: -bounds.y, height: bounds.height };
+  });
+  const total = measured.reduce((sum, m) => sum + m.height, 0);
+  let top =
+    style.verticalAlign === 'top'
+      ? box.y + LABEL_SPACING
+      : style.verticalAlign === 'bottom'
+        ? box.y + box.height - total - LABEL_SPACING
+        : box.y + (box.height - total) / 2;
+
+  return measured.map(({ line, width, ascent, height }) => {
+    const x =
+      style.align === 'left'
+        ? box.x + LABEL_SPACING
+        : style.align === 'right'
+          ? box.x + box.width - width - LABEL_SPACING
+          : box.x + (box.width - width) / 2;
+    const element: WhiteboardElement = {
+      id: createId(),
+      type: 'text',
+      points: [{ x, y: top + ascent }],
+      text: line,
+      fontSize: style.fontSize,
+      color: style.color,
+      strokeWidth: 1,
+      rotation: style.rotation,
+      groupIds: groupIds.length > 0 ? groupIds : undefined,
+    };
+    top += height;
+    return element;
+  });
+};
+
+const getLabelStyle = (style: Record<string, string>, rotation?: number): LabelStyle => ({
+  fontSize: getNumber(style.fontSize, DEFAULT_FONT_SIZE),
+  color: getColor(style.fontColor, DEFAULT_COLOR),
+  align: style.align ?? 'center',
+  verticalAlign: style.verticalAlign ?? 'middle',
+  rotation,
+});
+
+const convertCells = (cells: DrawioCell[]): WhiteboardElement[] => {
+  const byId = new Map(cells.map(cell => [cell.id, cell]));
+
+  // Children of vertices (containers, groups) are positioned relative to them
+  const origins = new Map<string, Point>();
+  const getOrigin = (id: string | null): Point => {
+    const parent = id ? byId.get(id) : undefined;
+    if (!parent?.vertex || !parent.geometry) return { x: 0, y: 0 };
+    const cached = origins.get(parent.id);
+    if (cached) return cached;
+    const base = getOrigin(parent.parent);
+    const own = readPoint(parent.geometry)!;
+    const origin = { x: base.x + own.x, y: base.y + own.y };
+    origins.set(parent.id, origin);
+    return origin;
+  };
+
+  const getBox = (cell: DrawioCell | undefined): BBox | null => {
+    if (!cell?.vertex || !cell.geometry) return null;
+    const origin = getOrigin(cell.parent);
+    const { x, y } = readPoint(cell.geometry)!;
+    return {
+      x: origin.x + x,
+      y: origin.y + y,
+      width: getNumber(cell.geometry.getAttribute('width'), 0),
+      height: getNumber(cell.geometry.getAttribute('height'), 0),
+    };
+  };
+
+  const getEdgePath = (cell: DrawioCell): Point[] | null => {
+    const origin = getOrigin(cell.parent);
+    const offset = (p: Point) => ({ x: origin.x + p.x, y: origin.y + p.y });
+    const pointsArray = cell.geometry && Array.from(cell.geometry.children).find(child => child.getAttribute('as') === 'points');
+    const waypoints = pointsArray ? Array.from(pointsArray.children).map(p => offset(readPoint(p)!)) : [];
+
+    const sourceBox = cell.source ? getBox(byId.get(cell.source)) : null;
+    const targetBox = cell.target ? getBox(byId.get(cell.target)) : null;
+    const sourcePoint = findPoint(cell.geometry, 'sourcePoint');
+    const targetPoint = findPoint(cell.geometry, 'targetPoint');
+
+    // Connected ends leave their shapes towards the neighbouring point
+    const next = waypoints[0] ?? (targetBox ? getBoundsCenter(targetBox) : targetPoint && offset(targetPoint));
+    const previous =
+      waypoints[waypoints.length - 1] ?? (sourceBox ? getBoundsCenter(sourceBox) : sourcePoint && offset(sourcePoint));
+    const start = sourceBox && next ? clipToBox(sourceBox, next) : sourcePoint && offset(sourcePoint);
+    const end = targetBox && previous ? clipToBox(targetBox, previous) : targetPoint && offset(targetPoint);
+    if (!start || !end) return null;
+    return [start, ...waypoints, end];
+  };
+
+  const elements: WhiteboardElement[] = [];
+  const edgePaths = new Map<string, Point[]>();
+
+  cells.forEach(cell => {
+    if (cell.edge) {
+      const path = getEdgePath(cell);
+      if (!path) return;
+      edgePaths.set(cell.id, path);
+      const { style } = cell;
+      const base = {
+        color: getColor(style.strokeColor, DEFAULT_COLOR),
+        strokeWidth: getNumber(style.strokeWidth, 1),
+      };
+      const endArrow = style.endArrow !== 'none';
+      const startArrow = style.startArrow !== undefined && style.startArrow !== 'none';
+      if (!endArrow && startArrow) path.reverse();
+      const groupIds = cell.label || path.length > 2 ? [createId()] : [];
+      const shared = groupIds.length > 0 ? { groupIds } : {};
+
+      // Longer freehand strokes are smoothed into curves, so each segment is
+      // its own two-point stroke; the head sits on the last one
+      path.slice(1).forEach((point, i) => {
+        const type = i === path.length - 2 && (endArrow || startArrow) ? 'arrow' : 'freehand';
+        elements.push({ id: createId(), type, points: [path[i], point], ...base, ...shared });
+      });
+      if (cell.label) {
+        const mid = midpointOfPath(path);
+        const box = { x: mid.x, y: mid.y, width: 0, height: 0 };
+        elements.push(...labelElements(cell.label, box, getLabelStyle(style), groupIds));
+      }
+      return;
+    }
+
+    if (!cell.vertex) return;
+    const { style } = cell;
+
+    // Labels attached to an edge sit on its middle
+    const parent = cell.parent ? byId.get(cell.parent) : undefined;
+    if (parent?.edge) {
+      const path = edgePaths.get(parent.id) ?? getEdgePath(parent);
+      if (!path || !cell.label) return;
+      const mid = midpointOfPath(path);
+      elements.push(...labelElements(cell.label, { x: mid.x, y: mid.y, width: 0, height: 0 }, getLabelStyle(style), []));
+      return;
+    }
+
+    const box = getBox(cell);
+    if (!box) return;
+    const shape = getShape(style);
+    const degrees = getNumber(style.rotation, 0);
+    const rotation = degrees ? (degrees * Math.PI) / 180 : undefined;
+    const outlined = shape !== 'text' && shape !== 'edgeLabel' && shape !== 'group' && style.strokeColor !== 'none';
+    const groupIds = outlined && cell.label ? [createId()] : [];
+    const shapeStyle = {
+      color: getColor(style.strokeColor, DEFAULT_COLOR),
+      strokeWidth: getNumber(style.strokeWidth, 1),
+      rotation,
+      groupIds: groupIds.length > 0 ? groupIds : undefined,
+    };
+
+    if (outlined && (shape === 'ellipse' || shape === 'doubleEllipse')) {
+      // Ellipses become the circle of their mean radius
+      const center = getBoundsCenter(box);
+      const radius = (box.width + box.height) / 4;
+      elements.push({ id: createId(), type: 'circle', points: [center, { x: center.x + radius, y: center.y }], ...shapeStyle });
+    } else if (outlined) {
+      const points = [
+        { x: box.x, y: box.y },
+        { x: box.x + box.width, y: box.y + box.height },
+      ];
+      elements.push({ id: createId(), type: 'rect', points, ...shapeStyle });
+    }
+    if (cell.label) elements.push(...labelElements(cell.label, box, getLabelStyle(style, rotation), groupIds));
+  });
+
+  return elements;
+};
+
+// --- IMPORT ---
+
+export type DrawioImportResult =
+  | { ok: true; elements: WhiteboardElement[]; pages: number }
+  | { ok: false; error: string };
+
+export const isDrawioFile = (name: string, text: string) =>
+  DRAWIO_EXTENSIONS.some(ext => name.toLowerCase().endsWith(ext)) || /^\s*<(mxfile|mxGraphModel)\b/.test(text);
+
+// The diagram is centered on `center` and grouped, so it lands as one
+// selectable piece
+export const importDrawio = async (text: string, center: Point): Promise<DrawioImportResult> => {
+  let read: Awaited<ReturnType<typeof readModel>>;
+  try {
+    read = await readModel(text);
+  } catch {
+    return { ok: false, error: 'The diagram could not be decompressed' };
+  }
+  if (!read) return { ok: false, error: 'The file is not a draw.io diagram' };
+
+  const elements = convertCells(readCells(read.model));
+  if (elements.length === 0) return { ok: true, elements, pages: read.pages };
+
+  const middle = getBoundsCenter(unionBounds(elements.map(getElementBounds)));
+  const dx = center.x - middle.x;
+  const dy = center.y - middle.y;
+  const groupId = createId();
+  return {
+    ok: true,
+    pages: read.pages,
+    elements: elements.map(el => ({
+      ...el,
+      points: el.points.map(p => ({ ...p, x: p.x + dx, y: p.y + dy })),
+      groupIds: [...(el.groupIds ?? []), groupId],
+    })),
+  };
+};
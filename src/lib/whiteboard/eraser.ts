@@ -0,0 +1,152 @@
+import { Point, WhiteboardElement } from './types';
+import { BoardDocument, positionBetween, visibleRecords } from './crdt';
+import { WhiteboardOpBody, createId } from './ops';
+import { distanceToPolyline, getBoundsCenter, getElementBounds, rotatePoint } from './geometry';
+
+// --- ERASER ---
+// 'object' deletes every element the eraser touches, 'split' cuts freehand
+// strokes where it passes (other elements are deleted whole), and 'mask'
+// paints a destination-out stroke that hides whatever lies beneath it.
+// Object and split erasing collect their changes during the drag and commit
+// them as one undo step when the pointer is released.
+
+export type EraserMode = 'object' | 'split' | 'mask';
+
+// Points along the eraser's path from `from` to `to`, close enough together
+// that a fast drag cannot jump over thin strokes.
+export const sampleEraserPath = (from: Point, to: Point, radius: number): Point[] => {
+  const distance = Math.hypot(to.x - from.x, to.y - from.y);
+  const steps = Math.max(1, Math.ceil(distance / Math.max(radius / 2, 0.5)));
+  return Array.from({ length: steps }, (_, i) => {
+    const t = (i + 1) / steps;
+    return { x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t };
+  });
+};
+
+const lerpPoint = (a: Point, b: Point, t: number): Point => {
+  const point: Point = { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+  if (a.pressure !== undefined && b.pressure !== undefined) {
+    point.pressure = a.pressure + (b.pressure - a.pressure) * t;
+  }
+  return point;
+};
+
+// Parts of a polyline that lie outside a circle. Segments crossing the circle
+// are cut exactly at its edge, so sparse (simplified) strokes split cleanly.
+export const clipPolylineByCircle = (points: Point[], center: Point, radius: number): Point[][] => {
+  if (points.length === 1) {
+    return Math.hypot(points[0].x - center.x, points[0].y - center.y) <= radius ? [] : [points];
+  }
+
+  const pieces: Point[][] = [];
+  let current: Point[] = [];
+  const finish = () => {
+    if (current.length > 1) pieces.push(current);
+    current = [];
+  };
+
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1];
+    const b = points[i];
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const fx = a.x - center.x;
+    const fy = a.y - center.y;
+    const qa = dx * dx + dy * dy;
+    const qb = 2 * (fx * dx + fy * dy);
+    const qc = fx * fx + fy * fy - radius * radius;
+    const discriminant = qb * qb - 4 * qa * qc;
+
+    // Parameter range of the segment inside the circle
+    let enter = 1;
+    let exit = 0;
+    if (qa === 0) {
+      if (qc <= 0) {
+        enter = 0;
+        exit = 1;
+      }
+    } else if (discriminant > 0) {
+      const root = Math.sqrt(discriminant);
+      enter = Math.max(0, (-qb - root) / (2 * qa));
+      exit = Math.min(1, (-qb + root) / (2 * qa));
+    }
+
+    if (enter >= exit) {
+      if (current.length === 0) current.push(a);
+      current.push(b);
+      continue;
+    }
+    if (enter > 0) {
+      if (current.length === 0) current.push(a);
+      current.push(lerpPoint(a, b, enter));
+    }
+    finish();
+    if (exit < 1) current = [lerpPoint(a, b, exit), b];
+  }
+  finish();
+  return pieces;
+};
+
+// Freehand points in world coordinates with the element's rotation applied,
+// so split pieces can drop the rotation and still line up.
+export const getWorldPoints = (element: WhiteboardElement): Point[] => {
+  if (!element.rotation) return element.points;
+  const center = getBoundsCenter(getElementBounds(element));
+  return element.points.map(p => ({ ...p, ...rotatePoint(p, center, element.rotation!) }));
+};
+
+// Cuts each piece of a stroke where the eraser touches its ink. Returns
+// `pieces` itself when the eraser misses them all.
+export const erasePieces = (
+  pieces: Point[][],
+  strokeWidth: number,
+  center: Point,
+  radius: number
+): Point[][] => {
+  const reach = radius + strokeWidth / 2;
+  if (pieces.every(piece => distanceToPolyline(center, piece) > reach)) return pieces;
+  return pieces.flatMap(piece =>
+    distanceToPolyline(center, piece) > reach ? [piece] : clipPolylineByCircle(piece, center, reach)
+  );
+};
+
+// Elements as they look mid-drag: erased ones dropped and cut strokes
+// replaced by their pieces, which get ids derived from the original's.
+export const applyErasePreview = (
+  elements: WhiteboardElement[],
+  erasedIds: string[],
+  pieces: Record<string, Point[][]>
+): WhiteboardElement[] => {
+  const erased = new Set(erasedIds);
+  return elements.flatMap(el => {
+    if (erased.has(el.id)) return [];
+    const cut = pieces[el.id];
+    return cut ? cut.map((points, i) => ({ ...el, id: `${el.id}:${i}`, points, rotation: 0 })) : [el];
+  });
+};
+
+// Replaces each cut stroke with its remaining pieces, stacked where the
+// original was so the paint order does not change.
+export const splitStrokeOps = (
+  doc: BoardDocument,
+  originals: WhiteboardElement[],
+  pieces: Record<string, Point[][]>
+): WhiteboardOpBody[] => {
+  const ordered = visibleRecords(doc);
+  const ops: WhiteboardOpBody[] = [];
+
+  originals.forEach(original => {
+    const index = ordered.findIndex(record => record.id === original.id);
+    if (index === -1) return;
+    ops.push({ kind: 'delete', ids: [original.id] });
+
+    let before = ordered[index].position.value;
+    const after = ordered[index + 1]?.position.value ?? null;
+    (pieces[original.id] ?? []).forEach(points => {
+      const position = positionBetween(before, after);
+      ops.push({ kind: 'add', element: { ...original, id: createId(), points, rotation: 0 }, position });
+      before = position;
+    });
+  });
+  return ops;
+};
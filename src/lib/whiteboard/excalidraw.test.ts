@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { WhiteboardElement } from './types';
+import { describeSkipped, exportExcalidraw, importExcalidraw } from './excalidraw';
+
+const base = { angle: 0, strokeColor: '#1e1e1e', strokeWidth: 2, groupIds: [], locked: false };
+
+const rectangle = { ...base, id: 'r', type: 'rectangle', x: 10, y: 20, width: 100, height: 50 };
+const arrow = {
+  ...base,
+  id: 'a',
+  type: 'arrow',
+  x: 0,
+  y: 0,
+  points: [[0, 0], [100, 40]],
+  endArrowhead: 'arrow',
+};
+const diamond = { ...base, id: 'd', type: 'diamond', x: 0, y: 0, width: 40, height: 40 };
+const image = { ...base, id: 'i', type: 'image', x: 0, y: 0, width: 40, height: 40, fileId: 'f' };
+
+const drawing = (elements: unknown[]) => JSON.stringify({ type: 'excalidraw', version: 2, elements });
+
+describe('importExcalidraw', () => {
+  it('imports supported elements', () => {
+    const result = importExcalidraw(drawing([rectangle, arrow]));
+    expect(result).toEqual({
+      ok: true,
+      skipped: {},
+      invalid: {},
+      elements: [
+        { id: 'r', type: 'rect', color: '#1e1e1e', strokeWidth: 2, points: [{ x: 10, y: 20 }, { x: 110, y: 70 }] },
+        { id: 'a', type: 'arrow', color: '#1e1e1e', strokeWidth: 2, points: [{ x: 0, y: 0 }, { x: 100, y: 40 }] },
+      ],
+    });
+  });
+
+  it('counts unsupported types by type', () => {
+    const result = importExcalidraw(drawing([rectangle, diamond, { ...diamond, id: 'd2' }, image]));
+    expect(result).toMatchObject({ ok: true, skipped: { diamond: 2, image: 1 }, invalid: {} });
+    if (result.ok === false) throw new Error(result.error);
+    expect(result.elements.map(el => el.id)).toEqual(['r']);
+  });
+
+  it('counts damaged elements of supported types apart from unsupported ones', () => {
+    const result = importExcalidraw(
+      drawing([
+        rectangle,
+        { ...rectangle, id: 'r2', x: 'left' },
+        { ...arrow, id: 'a2', points: [] },
+        { ...arrow, id: 'a3', points: [[0, null]] },
+        diamond,
+        { id: 'x' },
+      ])
+    );
+    expect(result).toMatchObject({
+      ok: true,
+      skipped: { diamond: 1, unknown: 1 },
+      invalid: { rectangle: 1, arrow: 2 },
+    });
+  });
+
+  it('ignores deleted elements', () => {
+    const result = importExcalidraw(drawing([rectangle, { ...diamond, isDeleted: true }, { ...rectangle, id: 'r2', isDeleted: true }]));
+    expect(result).toMatchObject({ ok: true, skipped: {}, invalid: {} });
+    if (result.ok === false) throw new Error(result.error);
+    expect(result.elements).toHaveLength(1);
+  });
+
+  it.each([
+    { name: 'text that is not JSON', text: '{"type":', error: 'The file is not valid JSON' },
+    { name: 'JSON of another app', text: '{"type": "freeboard", "elements": []}', error: 'The file is not an Excalidraw drawing' },
+  ])('rejects $name', ({ text, error }) => {
+    expect(importExcalidraw(text)).toEqual({ ok: false, error });
+  });
+});
+
+describe('exportExcalidraw', () => {
+  it('counts eraser marks, which have no counterpart', () => {
+    const elements: WhiteboardElement[] = [
+      { id: 'r', type: 'rect', color: '#1e1e1e', strokeWidth: 2, points: [{ x: 0, y: 0 }, { x: 10, y: 10 }] },
+      { id: 'e1', type: 'eraser', color: '#ffffff', strokeWidth: 12, points: [{ x: 0, y: 0 }] },
+      { id: 'e2', type: 'eraser', color: '#ffffff', strokeWidth: 12, points: [{ x: 5, y: 5 }] },
+    ];
+    const { json, skipped } = exportExcalidraw(elements);
+    expect(skipped).toEqual({ eraser: 2 });
+    expect(JSON.parse(json).elements).toHaveLength(1);
+  });
+});
+
+describe('describeSkipped', () => {
+  it.each([
+    { skipped: {}, expected: null },
+    { skipped: { image: 1 }, expected: '1 image' },
+    { skipped: { diamond: 2, image: 1 }, expected: '2 diamonds and 1 image' },
+    { skipped: { diamond: 2, image: 1, embeddable: 3 }, expected: '2 diamonds, 1 image and 3 embeddables' },
+  ])('describes $skipped as $expected', ({ skipped, expected }) => {
+    expect(describeSkipped(skipped)).toBe(expected);
+  });
+});
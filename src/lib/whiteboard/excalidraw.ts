@@ -0,0 +1,386 @@
+import { z } from 'zod';
+import { Point, WhiteboardElement } from './types';
+import { boundsFromPoints, getBoundsCenter, getCircleGeometry, getElementBounds, rotatePoint } from './geometry';
+import { createId } from './ops';
+
+// --- EXCALIDRAW ---
+// Converts between board elements and Excalidraw's `.excalidraw` JSON.
+// Rectangles, ellipses, arrows, lines, free drawing and text have a
+// counterpart on both sides; everything else is skipped and counted so the
+// caller can report it. Imported elements of those types whose fields do not
+// validate are counted apart, as damaged rather than unsupported. Where the models differ the nearest equivalent is
+// used:
+//   - ellipses become the circle of their mean radius
+//   - lines and multi-point arrows become smoothed freehand strokes, with an
+//     arrow over the last segment carrying the head
+//   - multi-line text becomes one grouped text element per line
+//   - frames become plain rectangles, which the PDF export treats as frames
+//   - eraser marks have no Excalidraw equivalent and are not exported
+
+export const EXCALIDRAW_EXTENSION = '.excalidraw';
+export const EXCALIDRAW_MIME = 'application/vnd.excalidraw+json';
+
+// Excalidraw draws free strokes this many times wider than their strokeWidth
+const FREEDRAW_WIDTH_SCALE = 4.25;
+const DEFAULT_LINE_HEIGHT = 1.25;
+// Excalidraw's Helvetica, the closest to the board's Arial
+const FONT_FAMILY_HELVETICA = 2;
+
+interface ExcalidrawBase {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // Radians, around the center of the element's box
+  angle: number;
+  strokeColor: string;
+  strokeWidth: number;
+  groupIds: string[];
+  locked: boolean;
+}
+
+interface ExcalidrawShape extends ExcalidrawBase {
+  type: 'rectangle' | 'ellipse' | 'frame';
+}
+
+interface ExcalidrawLinear extends ExcalidrawBase {
+  type: 'arrow' | 'line' | 'freedraw';
+  // Relative to x/y
+  points: [number, number][];
+  pressures: number[];
+  simulatePressure: boolean;
+  startArrowhead: string | null;
+  endArrowhead: string | null;
+}
+
+interface ExcalidrawText extends ExcalidrawBase {
+  type: 'text';
+  text: string;
+  fontSize: number;
+  lineHeight: number;
+}
+
+type ExcalidrawElement = ExcalidrawShape | ExcalidrawLinear | ExcalidrawText;
+
+// Element types with no counterpart, by count
+export type SkippedTypes = Record<string, number>;
+
+// --- IMPORT ---
+
+const finite = z.number().finite();
+
+const baseSchema = {
+  id: z.string().min(1),
+  x: finite,
+  y: finite,
+  width: finite.default(0),
+  height: finite.default(0),
+  angle: finite.default(0),
+  strokeColor: z.string().default('#1e1e1e'),
+  strokeWidth: z.number().min(0).default(2),
+  groupIds: z.array(z.string()).default([]),
+  locked: z.boolean().default(false),
+};
+
+const elementSchema = z.discriminatedUnion('type', [
+  z.object({ ...baseSchema, type: z.enum(['rectangle', 'ellipse', 'frame']) }),
+  z.object({
+    ...baseSchema,
+    type: z.enum(['arrow', 'line', 'freedraw']),
+    points: z.array(z.tuple([finite, finite])).min(1),
+    pressures: z.array(z.number()).default([]),
+    simulatePressure: z.boolean().default(true),
+    startArrowhead: z.string().nullable().default(null),
+    endArrowhead: z.string().nullable().default(null),
+  }),
+  z.object({
+    ...baseSchema,
+    type: z.literal('text'),
+    text: z.string(),
+    fontSize: z.number().positive().default(20),
+    lineHeight: z.number().positive().default(DEFAULT_LINE_HEIGHT),
+  }),
+]);
+
+const supportedTypes = new Set(elementSchema.optionsMap.keys());
+
+const fileSchema = z.object({
+  type: z.enum(['excalidraw', 'excalidraw/clipboard']),
+  elements: z.array(z.unknown()),
+});
+
+// How far the baseline sits below the top of a line, as the board measures it
+const getAscent = (text: string, fontSize: number) =>
+  -getElementBounds({ id: '', type: 'text', points: [{ x: 0, y: 0 }], color: '', strokeWidth: 0, text, fontSize }).y;
+
+const style = (el: ExcalidrawBase) => ({
+  color: el.strokeColor,
+  strokeWidth: el.strokeWidth,
+  groupIds: el.groupIds.length > 0 ? el.groupIds : undefined,
+  locked: el.locked || undefined,
+});
+
+const importShape = (el: ExcalidrawShape): WhiteboardElement[] => {
+  const rotation = el.angle || undefined;
+  if (el.type === 'ellipse') {
+    const center = { x: el.x + el.width / 2, y: el.y + el.height / 2 };
+    const radius = (Math.abs(el.width) + Math.abs(el.height)) / 4;
+    return [{ id: el.id, type: 'circle', points: [center, { x: center.x + radius, y: center.y }], rotation, ...style(el) }];
+  }
+  const points = [
+    { x: el.x, y: el.y },
+    { x: el.x + el.width, y: el.y + el.height },
+  ];
+  return [{ id: el.id, type: 'rect', points, rotation, ...style(el) }];
+};
+
+// Rotation is applied to the points, so a stroke split in two keeps its shape
+const importLinear = (el: ExcalidrawLinear): WhiteboardElement[] => {
+  let points: Point[] = el.points.map(([x, y]) => ({ x: el.x + x, y: el.y + y }));
+  if (el.angle) {
+    const center = getBoundsCenter(boundsFromPoints(points));
+    points = points.map(p => rotatePoint(p, center, el.angle));
+  }
+
+  if (el.type === 'freedraw') {
+    if (!el.simulatePressure && el.pressures.length === points.length) {
+      points = points.map((p, i) => ({ ...p, pressure: Math.min(1, Math.max(0, el.pressures[i])) }));
+    }
+    return [{ id: el.id, type: 'freehand', points, ...style(el), strokeWidth: el.strokeWidth * FREEDRAW_WIDTH_SCALE }];
+  }
+
+  const head = el.type === 'arrow' ? (el.endArrowhead ? 'end' : el.startArrowhead ? 'start' : null) : null;
+  if (!head || points.length < 2) return [{ id: el.id, type: 'freehand', points, ...style(el) }];
+  if (head === 'start') points.reverse();
+  if (points.length === 2) return [{ id: el.id, type: 'arrow', points, ...style(el) }];
+
+  const groupIds = [createId(), ...el.groupIds];
+  return [
+    { id: el.id, type: 'freehand', points: points.slice(0, -1), ...style(el), groupIds },
+    { id: createId(), type: 'arrow', points: points.slice(-2), ...style(el), groupIds },
+  ];
+};
+
+// Excalidraw places text by the top of its box; the board by the baseline
+const importText = (el: ExcalidrawText): WhiteboardElement[] => {
+  const lines = el.text.split('\n');
+  const groupIds = lines.length > 1 ? [createId(), ...el.groupIds] : el.groupIds;
+  return lines.flatMap((line, i) => {
+    if (!line) return [];
+    const baseline = el.y + i * el.fontSize * el.lineHeight + getAscent(line, el.fontSize);
+    return [
+      {
+        id: i === 0 ? el.id : createId(),
+        type: 'text' as const,
+        points: [{ x: el.x, y: baseline }],
+        text: line,
+        fontSize: el.fontSize,
+        rotation: el.angle || undefined,
+        ...style(el),
+        groupIds: groupIds.length > 0 ? groupIds : undefined,
+      },
+    ];
+  });
+};
+
+const importElement = (el: ExcalidrawElement): WhiteboardElement[] => {
+  switch (el.type) {
+    case 'rectangle':
+    case 'ellipse':
+    case 'frame':
+      return importShape(el);
+    case 'arrow':
+    case 'line':
+    case 'freedraw':
+      return importLinear(el);
+    case 'text':
+      return importText(el);
+  }
+};
+
+export type ExcalidrawImportResult =
+  | { ok: true; elements: WhiteboardElement[]; skipped: SkippedTypes; invalid: SkippedTypes }
+  | { ok: false; error: string };
+
+export const importExcalidraw = (text: string): ExcalidrawImportResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { ok: false, error: 'The file is not valid JSON' };
+  }
+  const file = fileSchema.safeParse(data);
+  if (!file.success) return { ok: false, error: 'The file is not an Excalidraw drawing' };
+
+  const elements: WhiteboardElement[] = [];
+  const skipped: SkippedTypes = {};
+  const invalid: SkippedTypes = {};
+  file.data.elements.forEach(raw => {
+    const { type, isDeleted } = (raw ?? {}) as { type?: unknown; isDeleted?: unknown };
+    if (isDeleted === true) return;
+    const parsed = elementSchema.safeParse(raw);
+    if (parsed.success) {
+      elements.push(...importElement(parsed.data as ExcalidrawElement));
+      return;
+    }
+    const name = typeof type === 'string' ? type : 'unknown';
+    const counts = supportedTypes.has(name) ? invalid : skipped;
+    counts[name] = (counts[name] ?? 0) + 1;
+  });
+  return { ok: true, elements, skipped, invalid };
+};
+
+// --- EXPORT ---
+
+// Fields every Excalidraw element carries that the board has no say in
+const excalidrawDefaults = () => ({
+  backgroundColor: 'transparent',
+  fillStyle: 'solid',
+  strokeStyle: 'solid',
+  // Clean lines, like the board draws them
+  roughness: 0,
+  opacity: 100,
+  frameId: null,
+  roundness: null,
+  seed: Math.floor(Math.random() * 2 ** 31),
+  version: 1,
+  versionNonce: Math.floor(Math.random() * 2 ** 31),
+  isDeleted: false,
+  boundElements: null,
+  updated: Date.now(),
+  link: null,
+});
+
+const exportBase = (element: WhiteboardElement, x: number, y: number, width: number, height: number) => ({
+  id: element.id,
+  x,
+  y,
+  width,
+  height,
+  angle: element.rotation ?? 0,
+  strokeColor: element.color,
+  strokeWidth: element.strokeWidth,
+  groupIds: element.groupIds ?? [],
+  locked: element.locked ?? false,
+});
+
+// Linear elements keep their box at the points' bounds, so both sides rotate
+// them around the same center
+const exportLinear = (
+  element: WhiteboardElement,
+  type: ExcalidrawLinear['type'],
+  extra: Partial<ExcalidrawLinear> = {}
+): ExcalidrawLinear => {
+  const box = boundsFromPoints(element.points);
+  return {
+    ...exportBase(element, box.x, box.y, box.width, box.height),
+    type,
+    points: element.points.map(p => [p.x - box.x, p.y - box.y]),
+    pressures: [],
+    simulatePressure: true,
+    startArrowhead: null,
+    endArrowhead: null,
+    ...extra,
+  };
+};
+
+const exportElement = (element: WhiteboardElement): ExcalidrawElement | null => {
+  const { points } = element;
+  switch (element.type) {
+    case 'rect': {
+      if (points.length < 2) return null;
+      const box = boundsFromPoints(points);
+      return { ...exportBase(element, box.x, box.y, box.width, box.height), type: 'rectangle' };
+    }
+
+    case 'circle': {
+      if (points.length < 2) return null;
+      const { center, radius } = getCircleGeometry(element);
+      return { ...exportBase(element, center.x - radius, center.y - radius, radius * 2, radius * 2), type: 'ellipse' };
+    }
+
+    case 'arrow':
+      return points.length < 2 ? null : exportLinear(element, 'arrow', { endArrowhead: 'arrow' });
+
+    case 'freehand': {
+      if (points.length === 0) return null;
+      const pressure = points.some(p => p.pressure !== undefined);
+      return exportLinear(element, 'freedraw', {
+        strokeWidth: element.strokeWidth / FREEDRAW_WIDTH_SCALE,
+        pressures: pressure ? points.map(p => p.pressure ?? 0.5) : [],
+        simulatePressure: !pressure,
+      });
+    }
+
+    case 'text': {
+      if (points.length === 0 || !element.text) return null;
+      const box = getElementBounds(element);
+      return {
+        ...exportBase(element, box.x, box.y, box.width, box.height),
+        type: 'text',
+        text: element.text,
+        fontSize: element.fontSize || 16,
+        lineHeight: DEFAULT_LINE_HEIGHT,
+      };
+    }
+
+    default:
+      return null;
+  }
+};
+
+// Text also needs the fields Excalidraw lays it out with
+const withTypeFields = (el: ExcalidrawElement) => {
+  if (el.type === 'text') {
+    return {
+      ...el,
+      fontFamily: FONT_FAMILY_HELVETICA,
+      textAlign: 'left',
+      verticalAlign: 'top',
+      containerId: null,
+      originalText: el.text,
+      autoResize: true,
+    };
+  }
+  if (el.type === 'arrow' || el.type === 'line' || el.type === 'freedraw') {
+    return { ...el, lastCommittedPoint: null, startBinding: null, endBinding: null };
+  }
+  return el;
+};
+
+// `clipboard` produces what Excalidraw accepts when pasted, rather than a file
+export const exportExcalidraw = (
+  elements: WhiteboardElement[],
+  { clipboard = false }: { clipboard?: boolean } = {}
+): { json: string; skipped: SkippedTypes } => {
+  const skipped: SkippedTypes = {};
+  const converted = elements.flatMap(element => {
+    if (element.hidden) return [];
+    const el = exportElement(element);
+    if (!el) {
+      if (element.type === 'eraser') skipped.eraser = (skipped.eraser ?? 0) + 1;
+      return [];
+    }
+    return [{ ...excalidrawDefaults(), ...withTypeFields(el) }];
+  });
+
+  const file = clipboard
+    ? { type: 'excalidraw/clipboard', elements: converted, files: {} }
+    : {
+        type: 'excalidraw',
+        version: 2,
+        source: typeof location !== 'undefined' ? location.origin : 'freeboard',
+        elements: converted,
+        appState: { viewBackgroundColor: '#ffffff', gridSize: null },
+        files: {},
+      };
+  return { json: JSON.stringify(file, null, 2), skipped };
+};
+
+// e.g. "2 diamonds and 1 image"
+export const describeSkipped = (skipped: SkippedTypes): string | null => {
+  const parts = Object.entries(skipped).map(([type, count]) => `${count} ${type}${count === 1 ? '' : 's'}`);
+  if (parts.length === 0) return null;
+  return parts.length === 1 ? parts[0] : `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}`;
+};
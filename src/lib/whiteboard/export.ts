@@ -0,0 +1,167 @@
+import { BBox, WhiteboardElement } from './types';
+import { unionBounds } from './geometry';
+import { boundsIntersect, buildSpatialIndex, getIndexBounds, querySpatialIndex } from './spatial';
+import { canvasToBlob, renderElementsToCanvas } from './render';
+import { elementsToSvg } from './svg';
+import { PdfPage, elementsToPdf } from './pdf';
+
+// --- EXPORT ---
+// Renders part of the board to a file independent of the camera: the whole
+// board, the selection, or exactly the area currently in view.
+
+export type ExportScope = 'board' | 'selection' | 'viewport';
+export type ExportFormat = 'png' | 'svg' | 'pdf' | 'excalidraw';
+// One PDF page per frame, or the whole export fitted onto one page
+export type PdfLayout = 'frames' | 'single';
+
+export interface ExportContent {
+  elements: WhiteboardElement[];
+  // World-space area to render, or null when there is nothing to export
+  region: BBox | null;
+}
+
+export interface ExportOptions {
+  scale: number;
+  // White background, or transparent when false
+  background: boolean;
+  // World units around the content; the visible area is exported as is
+  padding: number;
+}
+
+export interface PdfExportOptions {
+  layout: PdfLayout;
+  // Title and date above the content of each page
+  header: boolean;
+  title: string;
+}
+
+export const EXPORT_SCALES = [1, 2, 4];
+export const DEFAULT_EXPORT_PADDING = 16;
+
+// Browsers refuse to allocate canvases much beyond this many pixels per side
+const MAX_CANVAS_SIDE = 16384;
+
+// Hidden elements are never exported. Eraser masks are kept so they still
+// cut what they cover, but do not stretch the exported area.
+export const getExportContent = (elements: WhiteboardElement[], scope: ExportScope, viewport: BBox): ExportContent => {
+  const shown = elements.filter(el => !el.hidden);
+  if (scope === 'viewport') return { elements: shown, region: viewport };
+
+  const inked = shown.filter(el => el.type !== 'eraser');
+  return { elements: shown, region: inked.length > 0 ? unionBounds(inked.map(getIndexBounds)) : null };
+};
+
+// Padding actually applied for a scope
+const getPadding = (scope: ExportScope, padding: number) => (scope === 'viewport' ? 0 : Math.max(0, padding));
+
+// Output size in pixels. The scale is lowered when the requested one would
+// exceed what a canvas can hold.
+export const getPngSize = (region: BBox, scope: ExportScope, { scale, padding }: ExportOptions) => {
+  const pad = getPadding(scope, padding);
+  const width = region.width + pad * 2;
+  const height = region.height + pad * 2;
+  const fitted = Math.min(scale, MAX_CANVAS_SIDE / Math.max(width, height, 1));
+  return { width: Math.ceil(width * fitted), height: Math.ceil(height * fitted), scale: fitted };
+};
+
+export const exportPng = (content: ExportContent, scope: ExportScope, options: ExportOptions): Promise<Blob> => {
+  if (!content.region) return Promise.reject(new Error('Nothing to export'));
+  const { scale } = getPngSize(content.region, scope, options);
+  const canvas = renderElementsToCanvas(content.elements, {
+    scale,
+    padding: getPadding(scope, options.padding),
+    background: options.background ? '#ffffff' : null,
+    region: content.region,
+  });
+  return canvasToBlob(canvas);
+};
+
+// The scale does not apply; vector output stays sharp at any size
+export const exportSvg = (content: ExportContent, scope: ExportScope, options: ExportOptions): string => {
+  if (!content.region) throw new Error('Nothing to export');
+  return elementsToSvg(content.elements, {
+    region: content.region,
+    padding: getPadding(scope, options.padding),
+    background: options.background ? '#ffffff' : null,
+  });
+};
+
+// --- PDF FRAMES ---
+// The board has no dedicated frame element: a frame is a rectangle drawn
+// around other elements, as workshop boards mark out their regions. Frames
+// nested in another frame belong to its page.
+
+const containsBounds = (outer: BBox, inner: BBox) =>
+  inner.x >= outer.x &&
+  inner.y >= outer.y &&
+  inner.x + inner.width <= outer.x + outer.width &&
+  inner.y + inner.height <= outer.y + outer.height;
+
+// Frame areas in reading order: top to bottom, then left to right
+export const getExportFrames = (elements: WhiteboardElement[]): BBox[] => {
+  const inked = elements.filter(el => !el.hidden && el.type !== 'eraser');
+  const index = buildSpatialIndex(inked);
+  const boundsOf = (id: string) => index.bounds.get(id)!;
+
+  const candidates = inked
+    .filter(el => el.type === 'rect' && !el.rotation)
+    .map(el => ({ id: el.id, bounds: boundsOf(el.id) }))
+    .filter(({ id, bounds }) =>
+      querySpatialIndex(index, bounds).some(other => other !== id && containsBounds(bounds, boundsOf(other)))
+    );
+  // Of two identical frames the earlier one is kept
+  const frames = candidates.filter(
+    (frame, i) =>
+      !candidates.some(
+        (other, j) =>
+          j !== i && containsBounds(other.bounds, frame.bounds) && (j < i || !containsBounds(frame.bounds, other.bounds))
+      )
+  );
+  return frames.map(frame => frame.bounds).sort((a, b) => a.y - b.y || a.x - b.x);
+};
+
+export const exportPdf = (
+  content: ExportContent,
+  scope: ExportScope,
+  options: ExportOptions,
+  pdf: PdfExportOptions,
+  date = new Date()
+): Blob => {
+  if (!content.region) throw new Error('Nothing to export');
+  const frames = pdf.layout === 'frames' ? getExportFrames(content.elements) : [];
+  // Each frame page keeps the content's paint order, clipped to the frame
+  const pages: PdfPage[] =
+    frames.length > 0
+      ? frames.map(region => ({
+          region,
+          elements: content.elements.filter(el => boundsIntersect(getIndexBounds(el), region)),
+        }))
+      : [{ region: content.region, elements: content.elements }];
+
+  const bytes = elementsToPdf(pages, {
+    padding: frames.length > 0 ? 0 : getPadding(scope, options.padding),
+    header: pdf.header ? { title: pdf.title.trim(), date: formatExportDate(date) } : null,
+  });
+  return new Blob([bytes], { type: 'application/pdf' });
+};
+
+// e.g. "2024-05-01"
+export const formatExportDate = (date: Date) => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+// Base name for exported files, e.g. "whiteboard-2024-05-01"
+export const getExportFileName = (date = new Date()) => `whiteboard-${formatExportDate(date)}`;
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the download a moment to start before the URL goes away
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,354 @@
+import { BBox, Point, WhiteboardElement } from './types';
+
+// --- BOUNDS ---
+
+export const boundsFromPoints = (points: Point[]): BBox => {
+  if (points.length === 0) return { x: 0, y: 0, width: 0, height: 0 };
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const p of points) {
+    minX = Math.min(minX, p.x);
+    minY = Math.min(minY, p.y);
+    maxX = Math.max(maxX, p.x);
+    maxY = Math.max(maxY, p.y);
+  }
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
+
+export const unionBounds = (boxes: BBox[]): BBox =>
+  boundsFromPoints(
+    boxes.flatMap(b => [
+      { x: b.x, y: b.y },
+      { x: b.x + b.width, y: b.y + b.height },
+    ])
+  );
+
+export const getBoundsCenter = (b: BBox): Point => ({ x: b.x + b.width / 2, y: b.y + b.height / 2 });
+
+export const getBoundsCorners = (b: BBox): Point[] => [
+  { x: b.x, y: b.y },
+  { x: b.x + b.width, y: b.y },
+  { x: b.x + b.width, y: b.y + b.height },
+  { x: b.x, y: b.y + b.height },
+];
+
+// --- TEXT METRICS ---
+
+export const getTextFont = (fontSize: number) => `${fontSize}px Arial`;
+
+interface TextMetricsBox {
+  width: number;
+  ascent: number;
+  descent: number;
+}
+
+type MeasureContext = Pick<CanvasRenderingContext2D, 'font' | 'measureText'>;
+
+let measureContext: MeasureContext | null | undefined;
+const textMetricsCache = new Map<string, TextMetricsBox>();
+const TEXT_METRICS_CACHE_SIZE = 1000;
+
+// A scratch 2D context for measuring text, or null where none exists (tests
+// and scripts running outside the browser).
+const getMeasureContext = (): MeasureContext | null => {
+  if (measureContext !== undefined) return measureContext;
+  if (typeof OffscreenCanvas !== 'undefined') {
+    measureContext = new OffscreenCanvas(1, 1).getContext('2d');
+  } else if (typeof document !== 'undefined') {
+    measureContext = document.createElement('canvas').getContext('2d');
+  } else {
+    measureContext = null;
+  }
+  return measureContext;
+};
+
+// Width and vertical extent of rendered text, measured with the same font
+// the renderer uses. Falls back to an average glyph width without a canvas.
+const measureText = (text: string, fontSize: number): TextMetricsBox => {
+  const key = `${fontSize}|${text}`;
+  const cached = textMetricsCache.get(key);
+  if (cached) return cached;
+
+  const ctx = getMeasureContext();
+  let box: TextMetricsBox;
+  if (ctx) {
+    ctx.font = getTextFont(fontSize);
+    const metrics = ctx.measureText(text);
+    box = {
+      width: metrics.width,
+      ascent: metrics.fontBoundingBoxAscent ?? fontSize * 0.9,
+      descent: metrics.fontBoundingBoxDescent ?? fontSize * 0.25,
+    };
+  } else {
+    box = { width: text.length * fontSize * 0.6, ascent: fontSize * 0.9, descent: fontSize * 0.25 };
+  }
+
+  if (textMetricsCache.size >= TEXT_METRICS_CACHE_SIZE) textMetricsCache.clear();
+  textMetricsCache.set(key, box);
+  return box;
+};
+
+// points[0] is the baseline start of the text.
+const getTextBounds = (element: WhiteboardElement): BBox => {
+  const origin = element.points[0];
+  const { width, ascent, descent } = measureText(element.text || '', element.fontSize || 16);
+  return { x: origin.x, y: origin.y - ascent, width, height: ascent + descent };
+};
+
+// Bounds of the element before its rotation is applied.
+export const getElementBounds = (element: WhiteboardElement): BBox => {
+  switch (element.type) {
+    case 'circle': {
+      if (element.points.length < 2) return boundsFromPoints(element.points);
+      const { center, radius } = getCircleGeometry(element);
+      return { x: center.x - radius, y: center.y - radius, width: radius * 2, height: radius * 2 };
+    }
+
+    case 'text':
+      return element.points.length > 0 ? getTextBounds(element) : boundsFromPoints([]);
+
+    default:
+      return boundsFromPoints(element.points);
+  }
+};
+
+export const rotatePoint = (p: Point, center: Point, angle: number): Point => {
+  if (!angle) return p;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const dx = p.x - center.x;
+  const dy = p.y - center.y;
+  return { x: center.x + dx * cos - dy * sin, y: center.y + dx * sin + dy * cos };
+};
+
+// Circle elements store their center and a point on the edge.
+export const getCircleGeometry = (element: WhiteboardElement): { center: Point; radius: number } => {
+  const [center, edge = center] = element.points;
+  return { center, radius: Math.hypot(edge.x - center.x, edge.y - center.y) };
+};
+
+// The two barbs of an arrowhead at `end`.
+export const ARROW_HEAD_LENGTH = 10;
+
+export const getArrowHead = (start: Point, end: Point): [Point, Point] => {
+  const angle = Math.atan2(end.y - start.y, end.x - start.x);
+  return [
+    {
+      x: end.x - ARROW_HEAD_LENGTH * Math.cos(angle - Math.PI / 6),
+      y: end.y - ARROW_HEAD_LENGTH * Math.sin(angle - Math.PI / 6),
+    },
+    {
+      x: end.x - ARROW_HEAD_LENGTH * Math.cos(angle + Math.PI / 6),
+      y: end.y - ARROW_HEAD_LENGTH * Math.sin(angle + Math.PI / 6),
+    },
+  ];
+};
+
+// Axis-aligned bounds of the element as it appears on screen.
+export const getRotatedBounds = (element: WhiteboardElement): BBox => {
+  const bounds = getElementBounds(element);
+  if (!element.rotation) return bounds;
+  const center = getBoundsCenter(bounds);
+  return boundsFromPoints(getBoundsCorners(bounds).map(p => rotatePoint(p, center, element.rotation)));
+};
+
+const CIRCLE_OUTLINE_SEGMENTS = 32;
+
+// Outline of the element as a polyline in world coordinates, rotation
+// included. Closed shapes repeat their first point at the end.
+export const getElementOutline = (element: WhiteboardElement): Point[] => {
+  let outline: Point[];
+  switch (element.type) {
+    case 'rect':
+    case 'text': {
+      const corners = getBoundsCorners(getElementBounds(element));
+      outline = [...corners, corners[0]];
+      break;
+    }
+
+    case 'circle': {
+      const bounds = getElementBounds(element);
+      const center = getBoundsCenter(bounds);
+      const radius = bounds.width / 2;
+      outline = Array.from({ length: CIRCLE_OUTLINE_SEGMENTS + 1 }, (_, i) => {
+        const angle = (i / CIRCLE_OUTLINE_SEGMENTS) * 2 * Math.PI;
+        return { x: center.x + radius * Math.cos(angle), y: center.y + radius * Math.sin(angle) };
+      });
+      break;
+    }
+
+    default:
+      outline = element.points;
+  }
+
+  if (!element.rotation) return outline;
+  const center = getBoundsCenter(getElementBounds(element));
+  return outline.map(p => rotatePoint(p, center, element.rotation));
+};
+
+// Ray casting test against a closed polygon.
+export const pointInPolygon = (p: Point, polygon: Point[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (a.y > p.y !== b.y > p.y && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+const cross = (o: Point, a: Point, b: Point) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+export const segmentsIntersect = (a1: Point, a2: Point, b1: Point, b2: Point): boolean => {
+  const d1 = cross(b1, b2, a1);
+  const d2 = cross(b1, b2, a2);
+  const d3 = cross(a1, a2, b1);
+  const d4 = cross(a1, a2, b2);
+  return ((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0));
+};
+
+export const pointInBounds = (p: Point, b: BBox, padding = 0): boolean =>
+  p.x >= b.x - padding &&
+  p.x <= b.x + b.width + padding &&
+  p.y >= b.y - padding &&
+  p.y <= b.y + b.height + padding;
+
+// --- DISTANCES ---
+
+export const distanceToSegment = (p: Point, a: Point, b: Point): number => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  if (lengthSq === 0) return Math.hypot(p.x - a.x, p.y - a.y);
+  const t = Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+};
+
+export const distanceToPolyline = (p: Point, points: Point[]): number => {
+  if (points.length === 0) return Infinity;
+  if (points.length === 1) return Math.hypot(p.x - points[0].x, p.y - points[0].y);
+  let min = Infinity;
+  for (let i = 1; i < points.length; i++) {
+    min = Math.min(min, distanceToSegment(p, points[i - 1], points[i]));
+  }
+  return min;
+};
+
+// Distance from p to the outline of an axis-aligned ellipse. Iterates on the
+// angle of the nearest point in the first quadrant, which converges in a few
+// steps for any eccentricity.
+export const distanceToEllipse = (p: Point, center: Point, rx: number, ry: number): number => {
+  const px = Math.abs(p.x - center.x);
+  const py = Math.abs(p.y - center.y);
+  if (rx === 0 || ry === 0) {
+    return distanceToSegment({ x: px, y: py }, { x: 0, y: 0 }, { x: rx, y: ry });
+  }
+
+  let tx = Math.SQRT1_2;
+  let ty = Math.SQRT1_2;
+  for (let i = 0; i < 4; i++) {
+    const x = rx * tx;
+    const y = ry * ty;
+    const ex = ((rx * rx - ry * ry) * tx ** 3) / rx;
+    const ey = ((ry * ry - rx * rx) * ty ** 3) / ry;
+    const qx = px - ex;
+    const qy = py - ey;
+    const r = Math.hypot(x - ex, y - ey);
+    const q = Math.hypot(qx, qy) || 1;
+    tx = Math.min(1, Math.max(0, ((qx * r) / q + ex) / rx));
+    ty = Math.min(1, Math.max(0, ((qy * r) / q + ey) / ry));
+    const t = Math.hypot(tx, ty);
+    tx /= t;
+    ty /= t;
+  }
+  return Math.hypot(px - rx * tx, py - ry * ty);
+};
+
+// --- HIT TESTING ---
+
+// Extra reach around strokes, in screen pixels; divide by the zoom to get
+// world units so elements are equally easy to hit at any zoom level.
+export const HIT_TOLERANCE = 6;
+
+export const getHitTolerance = (zoom: number) => HIT_TOLERANCE / zoom;
+
+// 'stroke' hits only what is painted; 'fill' also counts the inside of
+// closed shapes (used to drag an already selected shape by its interior).
+export type HitMode = 'stroke' | 'fill';
+
+// Maps a world point into the element's unrotated frame.
+export const toElementSpace = (element: WhiteboardElement, p: Point): Point => {
+  if (!element.rotation) return p;
+  return rotatePoint(p, getBoundsCenter(getElementBounds(element)), -element.rotation);
+};
+
+export const hitTestElement = (
+  element: WhiteboardElement,
+  point: Point,
+  tolerance = HIT_TOLERANCE,
+  mode: HitMode = 'stroke'
+): boolean => {
+  if (element.points.length === 0) return false;
+  const local = toElementSpace(element, point);
+  const reach = element.strokeWidth / 2 + tolerance;
+
+  switch (element.type) {
+    case 'freehand':
+    case 'eraser':
+      return distanceToPolyline(local, element.points) <= reach;
+
+    case 'rect': {
+      const bounds = getElementBounds(element);
+      if (mode === 'fill' && pointInBounds(local, bounds)) return true;
+      const corners = getBoundsCorners(bounds);
+      return distanceToPolyline(local, [...corners, corners[0]]) <= reach;
+    }
+
+    case 'circle': {
+      const { center, radius } = getCircleGeometry(element);
+      if (mode === 'fill' && Math.hypot(local.x - center.x, local.y - center.y) <= radius) return true;
+      return distanceToEllipse(local, center, radius, radius) <= reach;
+    }
+
+    case 'arrow': {
+      const [start, end = start] = element.points;
+      const [left, right] = getArrowHead(start, end);
+      return Math.min(
+        distanceToSegment(local, start, end),
+        distanceToSegment(local, end, left),
+        distanceToSegment(local, end, right)
+      ) <= reach;
+    }
+
+    case 'text':
+      // Glyphs are too thin to aim at, so text is hit anywhere in its box
+      return pointInBounds(local, getElementBounds(element), tolerance);
+
+    default:
+      return pointInBounds(local, getElementBounds(element), tolerance);
+  }
+};
+
+// Whether selection, erasing and other pointer tools may pick the element.
+// Pixel-eraser masks are never picked: moving one would drag its hole across
+// other strokes, and erasing one would bring back what it hid.
+export const isElementInteractive = (element: WhiteboardElement): boolean =>
+  !element.hidden && !element.locked && element.type !== 'eraser';
+
+// Topmost element under the point that passes `predicate`.
+export const findElementAt = (
+  elements: WhiteboardElement[],
+  point: Point,
+  tolerance?: number,
+  predicate: (element: WhiteboardElement) => boolean = isElementInteractive,
+  mode?: HitMode
+): WhiteboardElement | undefined => {
+  for (let i = elements.length - 1; i >= 0; i--) {
+    if (predicate(elements[i]) && hitTestElement(elements[i], point, tolerance, mode)) return elements[i];
+  }
+  return undefined;
+};
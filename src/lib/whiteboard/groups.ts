@@ -0,0 +1,83 @@
+import { WhiteboardElement } from './types';
+import { WhiteboardOpBody, createId } from './ops';
+
+// --- GROUPS ---
+// An element's `groupIds` lists the groups it belongs to from the innermost
+// to the outermost. Clicking selects the outermost group; double-clicking
+// "enters" that group, after which clicks resolve one level further in.
+
+export const getGroupIds = (element: WhiteboardElement): string[] => element.groupIds ?? [];
+
+// The group a click on `element` selects, or null for the element itself.
+export const getSelectableGroupId = (element: WhiteboardElement, editingGroupId: string | null): string | null => {
+  const groupIds = getGroupIds(element);
+  if (!editingGroupId) return groupIds[groupIds.length - 1] ?? null;
+  const index = groupIds.indexOf(editingGroupId);
+  if (index === -1) return groupIds[groupIds.length - 1] ?? null;
+  return index > 0 ? groupIds[index - 1] : null;
+};
+
+export const getGroupMembers = (elements: WhiteboardElement[], groupId: string): WhiteboardElement[] =>
+  elements.filter(el => getGroupIds(el).includes(groupId));
+
+// Expands picked ids to whole groups at the current editing level.
+export const expandToGroups = (
+  elements: WhiteboardElement[],
+  ids: string[],
+  editingGroupId: string | null
+): string[] => {
+  const picked = new Set(ids);
+  const result = new Set<string>();
+  elements.forEach(el => {
+    if (!picked.has(el.id)) return;
+    const groupId = getSelectableGroupId(el, editingGroupId);
+    if (groupId) {
+      getGroupMembers(elements, groupId).forEach(member => result.add(member.id));
+    } else {
+      result.add(el.id);
+    }
+  });
+  return elements.filter(el => result.has(el.id)).map(el => el.id);
+};
+
+// Ops that put the selected elements into a new group. Inside an entered
+// group the new group is nested directly below it.
+export const groupOps = (selected: WhiteboardElement[], editingGroupId: string | null): WhiteboardOpBody[] => {
+  if (selected.length < 2) return [];
+  const groupId = createId();
+  return selected.map(el => {
+    const groupIds = [...getGroupIds(el)];
+    const index = editingGroupId ? groupIds.indexOf(editingGroupId) : -1;
+    groupIds.splice(index === -1 ? groupIds.length : index, 0, groupId);
+    return { kind: 'update', id: el.id, updates: { groupIds } };
+  });
+};
+
+// Ops that dissolve the groups selected at the current editing level.
+export const ungroupOps = (selected: WhiteboardElement[], editingGroupId: string | null): WhiteboardOpBody[] =>
+  selected.flatMap(el => {
+    const groupId = getSelectableGroupId(el, editingGroupId);
+    if (!groupId) return [];
+    const body: WhiteboardOpBody = {
+      kind: 'update',
+      id: el.id,
+      updates: { groupIds: getGroupIds(el).filter(id => id !== groupId) },
+    };
+    return [body];
+  });
+
+// Gives copied elements fresh group ids so they don't join the originals'
+// groups, while keeping the copies grouped among themselves.
+export const remapGroupIds = (elements: WhiteboardElement[]): WhiteboardElement[] => {
+  const mapping = new Map<string, string>();
+  return elements.map(el => {
+    if (!el.groupIds?.length) return el;
+    return {
+      ...el,
+      groupIds: el.groupIds.map(id => {
+        if (!mapping.has(id)) mapping.set(id, createId());
+        return mapping.get(id);
+      }),
+    };
+  });
+};
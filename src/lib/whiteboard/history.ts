@@ -0,0 +1,60 @@
+import { WhiteboardElement } from './types';
+import { BoardDocument, isVisible } from './crdt';
+import { WhiteboardOpBody } from './ops';
+
+// --- PER-USER HISTORY ---
+// Undo does not restore snapshots of the board. Instead every local change
+// records the ops that revert exactly what it touched, so undoing only affects
+// this user's own adds, deletes, moves and style changes, even when other
+// participants have edited the board in between.
+
+export interface HistoryEntry {
+  ops: WhiteboardOpBody[];
+}
+
+const visibleIds = (doc: BoardDocument, ids: string[], visible: boolean) =>
+  ids.filter(id => doc.records[id] && isVisible(doc, doc.records[id]) === visible);
+
+// Returns the op that reverts `body`, computed against the document as it
+// was right before `body` was applied, or null if the op changes nothing.
+export const invertOp = (doc: BoardDocument, body: WhiteboardOpBody): WhiteboardOpBody | null => {
+  switch (body.kind) {
+    case 'add':
+      return { kind: 'delete', ids: [body.element.id] };
+
+    case 'update': {
+      const record = doc.records[body.id];
+      if (!record) return null;
+      const previous: Partial<WhiteboardElement> = {};
+      // Fields that were never set are unset again with null
+      for (const key of Object.keys(body.updates)) {
+        previous[key] = record.fields[key]?.value ?? null;
+      }
+      return { kind: 'update', id: body.id, updates: previous };
+    }
+
+    case 'delete': {
+      const ids = visibleIds(doc, body.ids, true);
+      return ids.length > 0 ? { kind: 'restore', ids } : null;
+    }
+
+    case 'restore': {
+      const ids = visibleIds(doc, body.ids, false);
+      return ids.length > 0 ? { kind: 'delete', ids } : null;
+    }
+
+    case 'reorder': {
+      const record = doc.records[body.id];
+      if (!record) return null;
+      return { kind: 'reorder', id: body.id, position: record.position.value };
+    }
+
+    case 'clear': {
+      const ids = visibleIds(doc, Object.keys(doc.records), true);
+      return ids.length > 0 ? { kind: 'restore', ids } : null;
+    }
+
+    default:
+      return null;
+  }
+};
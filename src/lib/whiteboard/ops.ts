@@ -0,0 +1,127 @@
+import { WhiteboardElement } from './types';
+import {
+  BoardDocument,
+  Clock,
+  addElement,
+  clearDocument,
+  moveElement,
+  positionAt,
+  positionBetween,
+  setDeleted,
+  updateElement,
+} from './crdt';
+
+// --- OPERATIONS ---
+// Every change to a board travels as one of these ops instead of the whole
+// element array, so concurrent edits to different elements never clobber
+// each other. Ops are applied through whiteboardReducer on both the sending
+// and the receiving side, and are merged into the CRDT document in crdt.ts.
+
+export type WhiteboardOpBody =
+  | { kind: 'add'; element: WhiteboardElement; position: string }
+  | { kind: 'update'; id: string; updates: Partial<WhiteboardElement> }
+  | { kind: 'delete'; ids: string[] }
+  | { kind: 'restore'; ids: string[] }
+  | { kind: 'reorder'; id: string; position: string }
+  | { kind: 'clear' };
+
+export type WhiteboardOp = WhiteboardOpBody & {
+  clientId: string;
+  seq: number;
+  lamport: number;
+};
+
+// A client joining a board asks for the peers' replicas, since ops alone only
+// carry what changes after it joined. Every peer with content answers with a
+// snapshot addressed to the asking client; merging several is harmless.
+export interface BoardSyncRequest {
+  clientId: string;
+}
+
+export interface BoardSnapshot {
+  to: string;
+  doc: BoardDocument;
+}
+
+export const createId = (): string => {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+};
+
+// Stamps op bodies with this client's id, a per-client sequence number and a
+// Lamport clock. Remote ops, and the clock of any merged snapshot, must be
+// passed to `observe` so local clocks always move past everything this client
+// has seen.
+export const createOpFactory = (clientId: string = createId()) => {
+  let seq = 0;
+  let lamport = 0;
+  return {
+    clientId,
+    create: (body: WhiteboardOpBody): WhiteboardOp => ({ ...body, clientId, seq: ++seq, lamport: ++lamport }),
+    observe: (seen: Pick<WhiteboardOp, 'lamport'>) => {
+      lamport = Math.max(lamport, seen.lamport);
+    },
+  };
+};
+
+export const opClock = (op: WhiteboardOp): Clock => ({ lamport: op.lamport, clientId: op.clientId });
+
+export const applyOp = (doc: BoardDocument, op: WhiteboardOp): BoardDocument => {
+  const clock = opClock(op);
+  switch (op.kind) {
+    case 'add':
+      return addElement(doc, op.element, op.position, clock);
+
+    case 'update':
+      return updateElement(doc, op.id, op.updates, clock);
+
+    case 'delete':
+      return setDeleted(doc, op.ids, true, clock);
+
+    case 'restore':
+      return setDeleted(doc, op.ids, false, clock);
+
+    case 'reorder':
+      return moveElement(doc, op.id, op.position, clock);
+
+    case 'clear':
+      return clearDocument(doc, clock);
+
+    default:
+      return doc;
+  }
+};
+
+// Ids of the elements an op can change, or null when it may touch all of them.
+export const opElementIds = (op: WhiteboardOpBody): string[] | null => {
+  switch (op.kind) {
+    case 'add':
+      return [op.element.id];
+
+    case 'update':
+    case 'reorder':
+      return [op.id];
+
+    case 'delete':
+    case 'restore':
+      return op.ids;
+
+    default:
+      return null;
+  }
+};
+
+// Ops that append new elements on top of everything else, keeping their
+// relative order.
+export const addOps = (doc: BoardDocument, elements: WhiteboardElement[]): WhiteboardOpBody[] => {
+  let position: string | null = null;
+  return elements.map(element => {
+    position = position === null ? positionAt(doc, Number.MAX_SAFE_INTEGER) : positionBetween(position, null);
+    return { kind: 'add', element, position };
+  });
+};
+
+export const addOp = (doc: BoardDocument, element: WhiteboardElement): WhiteboardOpBody =>
+  addOps(doc, [element])[0];
@@ -0,0 +1,210 @@
+import { BBox, Point } from './types';
+import { getBoundsCenter, getTextFont } from './geometry';
+import { HANDLE_SIZE, RESIZE_HANDLES, SelectionFrame, getHandlePosition } from './transform';
+import { SelectionRegion, rectFromPoints } from './selection';
+import { RemoteCursor, colorForUser, getCursorOpacity } from './presence';
+import { Camera, worldToScreen } from './camera';
+import { Context2D } from './render';
+
+// --- OVERLAYS ---
+// Interaction feedback drawn above the board on the live layer. None of it
+// is part of the document.
+
+export interface TextPreview {
+  value: string;
+  position: Point;
+  fontSize: number;
+  color: string;
+}
+
+export interface Overlay {
+  text: TextPreview | null;
+  // Bounds of the group being edited
+  group: BBox | null;
+  hover: { outline: Point[]; color: string } | null;
+  selection: { frame: SelectionFrame; handles: boolean } | null;
+  region: SelectionRegion | null;
+  eraser: { center: Point; radius: number } | null;
+  cursors: RemoteCursor[];
+  // Clock the cursors' idle state is judged against
+  now: number;
+}
+
+export const emptyOverlay: Overlay = {
+  text: null,
+  group: null,
+  hover: null,
+  selection: null,
+  region: null,
+  eraser: null,
+  cursors: [],
+  now: 0,
+};
+
+const GROUP_PADDING = 6;
+
+// Locked selections get a grey frame without handles
+const drawSelectionFrame = (ctx: Context2D, frame: SelectionFrame, withHandles: boolean, zoom: number) => {
+  const { bounds, rotation } = frame;
+  const center = getBoundsCenter(bounds);
+  const handleSize = HANDLE_SIZE / zoom;
+
+  ctx.save();
+  ctx.strokeStyle = withHandles ? '#1971c2' : '#868e96';
+  ctx.fillStyle = '#ffffff';
+  ctx.lineWidth = 1 / zoom;
+
+  // Frame
+  ctx.save();
+  ctx.translate(center.x, center.y);
+  ctx.rotate(rotation);
+  ctx.translate(-center.x, -center.y);
+  ctx.setLineDash([4 / zoom, 4 / zoom]);
+  ctx.strokeRect(bounds.x, bounds.y, bounds.width, bounds.height);
+  ctx.restore();
+
+  if (!withHandles) {
+    ctx.restore();
+    return;
+  }
+
+  // Rotation handle and its stem
+  const top = getHandlePosition(frame, 'n', zoom);
+  const rotate = getHandlePosition(frame, 'rotate', zoom);
+  ctx.beginPath();
+  ctx.moveTo(top.x, top.y);
+  ctx.lineTo(rotate.x, rotate.y);
+  ctx.stroke();
+  ctx.beginPath();
+  ctx.arc(rotate.x, rotate.y, handleSize / 2, 0, 2 * Math.PI);
+  ctx.fill();
+  ctx.stroke();
+
+  // Resize handles
+  RESIZE_HANDLES.forEach(handle => {
+    const p = getHandlePosition(frame, handle, zoom);
+    ctx.save();
+    ctx.translate(p.x, p.y);
+    ctx.rotate(rotation);
+    ctx.fillRect(-handleSize / 2, -handleSize / 2, handleSize, handleSize);
+    ctx.strokeRect(-handleSize / 2, -handleSize / 2, handleSize, handleSize);
+    ctx.restore();
+  });
+
+  ctx.restore();
+};
+
+const drawSelectionRegion = (ctx: Context2D, region: SelectionRegion, zoom: number) => {
+  if (region.points.length < 2) return;
+  ctx.save();
+  ctx.strokeStyle = '#1971c2';
+  ctx.fillStyle = 'rgba(25, 113, 194, 0.08)';
+  ctx.lineWidth = 1 / zoom;
+  ctx.setLineDash([4 / zoom, 4 / zoom]);
+  ctx.beginPath();
+  if (region.kind === 'marquee') {
+    const rect = rectFromPoints(region.points[0], region.points[1]);
+    ctx.rect(rect.x, rect.y, rect.width, rect.height);
+  } else {
+    ctx.moveTo(region.points[0].x, region.points[0].y);
+    region.points.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+    ctx.closePath();
+  }
+  ctx.fill();
+  ctx.stroke();
+  ctx.restore();
+};
+
+// Everything positioned in world space; expects the camera to be applied.
+export const drawWorldOverlay = (ctx: Context2D, overlay: Overlay, zoom: number) => {
+  const { text, group, hover, selection, region, eraser } = overlay;
+
+  if (text) {
+    ctx.font = getTextFont(text.fontSize);
+    ctx.fillStyle = text.color;
+    ctx.fillText(text.value, text.position.x, text.position.y);
+  }
+
+  if (group) {
+    const padding = GROUP_PADDING / zoom;
+    ctx.save();
+    ctx.strokeStyle = '#adb5bd';
+    ctx.lineWidth = 1 / zoom;
+    ctx.setLineDash([6 / zoom, 4 / zoom]);
+    ctx.strokeRect(group.x - padding, group.y - padding, group.width + padding * 2, group.height + padding * 2);
+    ctx.restore();
+  }
+
+  if (hover) {
+    ctx.save();
+    ctx.strokeStyle = hover.color;
+    ctx.lineWidth = 2 / zoom;
+    ctx.beginPath();
+    hover.outline.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+    ctx.stroke();
+    ctx.restore();
+  }
+
+  if (selection) drawSelectionFrame(ctx, selection.frame, selection.handles, zoom);
+  if (region) drawSelectionRegion(ctx, region, zoom);
+
+  // Eraser outline in place of the pointer
+  if (eraser) {
+    ctx.save();
+    ctx.strokeStyle = '#868e96';
+    ctx.lineWidth = 1 / zoom;
+    ctx.beginPath();
+    ctx.arc(eraser.center.x, eraser.center.y, eraser.radius, 0, 2 * Math.PI);
+    ctx.stroke();
+    ctx.restore();
+  }
+};
+
+// Pointer arrow on a 24px grid with its tip at the origin
+const CURSOR_PATH = 'M4.037 4.688a.495.495 0 0 1 .651-.651l16 6.5a.5.5 0 0 1-.063.947l-6.124 1.58a2 2 0 0 0-1.438 1.435l-1.579 6.126a.5.5 0 0 1-.947.063z';
+const CURSOR_SIZE = 18;
+const LABEL_FONT = '12px sans-serif';
+
+let cursorPath: Path2D | null = null;
+
+// Remote cursors at a constant screen size; expects a CSS-pixel transform
+// without the camera.
+export const drawRemoteCursors = (
+  ctx: Context2D,
+  cursors: RemoteCursor[],
+  camera: Camera,
+  now: number
+) => {
+  cursorPath = cursorPath ?? new Path2D(CURSOR_PATH);
+  const scale = CURSOR_SIZE / 24;
+
+  cursors.forEach(cursor => {
+    const color = colorForUser(cursor.id);
+    const screen = worldToScreen(camera, cursor.position);
+    ctx.save();
+    ctx.globalAlpha = getCursorOpacity(cursor, now);
+    ctx.translate(screen.x, screen.y);
+
+    ctx.save();
+    ctx.scale(scale, scale);
+    ctx.fillStyle = color;
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 2;
+    ctx.lineJoin = 'round';
+    ctx.fill(cursorPath!);
+    ctx.stroke(cursorPath!);
+    ctx.restore();
+
+    // Name tag to the right of the arrow
+    ctx.font = LABEL_FONT;
+    const width = ctx.measureText(cursor.name).width + 12;
+    ctx.fillStyle = color;
+    ctx.beginPath();
+    ctx.roundRect(CURSOR_SIZE + 12, 2, width, 20, 4);
+    ctx.fill();
+    ctx.fillStyle = '#ffffff';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(cursor.name, CURSOR_SIZE + 18, 12);
+    ctx.restore();
+  });
+};
@@ -0,0 +1,284 @@
+import { BBox, Point, WhiteboardElement } from './types';
+import { getArrowHead, getBoundsCenter, getCircleGeometry, getElementBounds } from './geometry';
+import { getPressureWidth } from './render';
+
+// --- PDF EXPORT ---
+// A small PDF writer for handouts: each page shows one world-space region
+// fitted onto A4, drawn with vector paths and the built-in Helvetica fonts,
+// so no font or library has to be fetched. Elements map to the same curves
+// the canvas draws. PDF has no eraser compositing, so eraser masks are
+// painted in white, which matches the white page they are printed on.
+
+export interface PdfPage {
+  elements: WhiteboardElement[];
+  // World-space area shown on the page
+  region: BBox;
+}
+
+export interface PdfHeader {
+  title: string;
+  date: string;
+}
+
+export interface PdfOptions {
+  // World units around each region
+  padding?: number;
+  // Title and date printed above the content of every page
+  header?: PdfHeader | null;
+}
+
+// A4 in points
+const PAGE_SHORT = 595.28;
+const PAGE_LONG = 841.89;
+const MARGIN = 36;
+const HEADER_HEIGHT = 44;
+// Small regions are not blown up beyond one point per world unit
+const MAX_SCALE = 1;
+// Control point distance for a quarter circle drawn as a cubic curve
+const KAPPA = 0.5522847498;
+
+const num = (n: number): string => {
+  const rounded = Math.round(n * 100) / 100;
+  return Object.is(rounded, -0) ? '0' : String(rounded);
+};
+
+// Transform entries need more precision: a large board scales far below 0.01
+const matrix = (values: number[]) => values.map(v => v.toFixed(6).replace(/\.?0+$/, '')).join(' ');
+
+const point = (p: Point) => `${num(p.x)} ${num(p.y)}`;
+
+// Hex colors as PDF RGB components; anything else falls back to black
+const rgb = (color: string): string => {
+  const hex = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color.trim())?.[1];
+  if (!hex) return '0 0 0';
+  const full = hex.length === 3 ? hex.replace(/./g, c => c + c) : hex;
+  return [0, 2, 4].map(i => num(parseInt(full.slice(i, i + 2), 16) / 255)).join(' ');
+};
+
+// WinAnsiEncoding matches Latin-1 except for these punctuation marks
+const WIN_ANSI: Record<string, number> = {
+  '€': 0x80,
+  '‚': 0x82,
+  '„': 0x84,
+  '…': 0x85,
+  '‘': 0x91,
+  '’': 0x92,
+  '“': 0x93,
+  '”': 0x94,
+  '•': 0x95,
+  '–': 0x96,
+  '—': 0x97,
+  '™': 0x99,
+};
+
+// Literal string in the standard fonts' encoding. The file stays ASCII, and
+// characters those fonts cannot show become '?'.
+const pdfString = (text: string): string => {
+  const body = Array.from(text)
+    .map(ch => {
+      const code = WIN_ANSI[ch] ?? ch.codePointAt(0) ?? 0x3f;
+      if (ch === '\\' || ch === '(' || ch === ')') return `\\${ch}`;
+      if (code < 0x20) return ' ';
+      if (code < 0x80) return ch;
+      if (code > 0xff || (code < 0xa0 && WIN_ANSI[ch] === undefined)) return '?';
+      return `\\${code.toString(8)}`;
+    })
+    .join('');
+  return `(${body})`;
+};
+
+const midpoint = (a: Point, b: Point): Point => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+
+// Quadratic curve from `from`, raised to the cubic PDF can draw
+const quadTo = (from: Point, control: Point, to: Point) => {
+  const c1 = { x: from.x + ((control.x - from.x) * 2) / 3, y: from.y + ((control.y - from.y) * 2) / 3 };
+  const c2 = { x: to.x + ((control.x - to.x) * 2) / 3, y: to.y + ((control.y - to.y) * 2) / 3 };
+  return `${point(c1)} ${point(c2)} ${point(to)} c`;
+};
+
+// Path operators for the canvas's traceSmoothPath
+const smoothPath = (points: Point[]): string => {
+  const parts = [`${point(points[0])} m`];
+  let current = points[0];
+  for (let i = 1; i < points.length - 1; i++) {
+    const mid = midpoint(points[i], points[i + 1]);
+    parts.push(quadTo(current, points[i], mid));
+    current = mid;
+  }
+  parts.push(`${point(points[points.length - 1])} l`);
+  return parts.join(' ');
+};
+
+const circlePath = (center: Point, radius: number): string => {
+  const { x, y } = center;
+  const k = radius * KAPPA;
+  return [
+    `${num(x + radius)} ${num(y)} m`,
+    `${num(x + radius)} ${num(y + k)} ${num(x + k)} ${num(y + radius)} ${num(x)} ${num(y + radius)} c`,
+    `${num(x - k)} ${num(y + radius)} ${num(x - radius)} ${num(y + k)} ${num(x - radius)} ${num(y)} c`,
+    `${num(x - radius)} ${num(y - k)} ${num(x - k)} ${num(y - radius)} ${num(x)} ${num(y - radius)} c`,
+    `${num(x + k)} ${num(y - radius)} ${num(x + radius)} ${num(y - k)} ${num(x + radius)} ${num(y)} c`,
+    'h',
+  ].join(' ');
+};
+
+const strokeStyle = (color: string, width: number) => `${rgb(color)} RG ${num(width)} w 1 J 1 j`;
+
+// Variable-width strokes: one curve per control point, like drawPressureStroke
+const pressureStroke = (element: WhiteboardElement): string => {
+  const { points, strokeWidth, color } = element;
+  if (points.length === 1) {
+    return `${rgb(color)} rg ${circlePath(points[0], getPressureWidth(strokeWidth, points[0]) / 2)} f`;
+  }
+  const segments = [`${rgb(color)} RG 1 J 1 j`];
+  let start = points[0];
+  for (let i = 1; i < points.length; i++) {
+    const end = i < points.length - 1 ? midpoint(points[i], points[i + 1]) : points[i];
+    segments.push(`${num(getPressureWidth(strokeWidth, points[i]))} w ${point(start)} m ${quadTo(start, points[i], end)} S`);
+    start = end;
+  }
+  return segments.join('\n');
+};
+
+// Drawing operators for one element, or '' if it draws nothing
+const elementToPdf = (element: WhiteboardElement): string => {
+  const { points } = element;
+  const stroke = strokeStyle(element.color, element.strokeWidth);
+  let ops = '';
+
+  switch (element.type) {
+    case 'freehand':
+      if (points.some(p => p.pressure !== undefined)) {
+        ops = pressureStroke(element);
+      } else if (points.length > 1) {
+        ops = `${stroke} ${smoothPath(points)} S`;
+      }
+      break;
+
+    case 'eraser':
+      if (points.length === 1) {
+        ops = `1 1 1 rg ${circlePath(points[0], element.strokeWidth / 2)} f`;
+      } else if (points.length > 1) {
+        ops = `${strokeStyle('#ffffff', element.strokeWidth)} ${smoothPath(points)} S`;
+      }
+      break;
+
+    case 'rect':
+      if (points.length === 2) {
+        const [start, end] = points;
+        ops = `${stroke} ${point(start)} ${num(end.x - start.x)} ${num(end.y - start.y)} re S`;
+      }
+      break;
+
+    case 'circle':
+      if (points.length === 2) {
+        const { center, radius } = getCircleGeometry(element);
+        ops = `${stroke} ${circlePath(center, radius)} S`;
+      }
+      break;
+
+    case 'arrow':
+      if (points.length === 2) {
+        const [start, end] = points;
+        const [left, right] = getArrowHead(start, end);
+        ops = `${stroke} ${point(start)} m ${point(end)} l ${point(left)} m ${point(end)} l ${point(right)} l S`;
+      }
+      break;
+
+    // The page is flipped to the board's y-down space, so text is flipped
+    // back to stand upright
+    case 'text':
+      if (points.length > 0 && element.text) {
+        const size = num(element.fontSize || 16);
+        ops = `BT /F1 ${size} Tf ${rgb(element.color)} rg 1 0 0 -1 ${point(points[0])} Tm ${pdfString(element.text)} Tj ET`;
+      }
+      break;
+  }
+
+  if (!ops) return '';
+  if (!element.rotation) return `q\n${ops}\nQ`;
+  // Rotate around the center of the unrotated bounds, as drawElement does
+  const { x, y } = getBoundsCenter(getElementBounds(element));
+  const cos = Math.cos(element.rotation);
+  const sin = Math.sin(element.rotation);
+  return `q\n${matrix([cos, sin, -sin, cos, x - cos * x + sin * y, y - sin * x - cos * y])} cm\n${ops}\nQ`;
+};
+
+// Content stream for one page: the region fitted below the header, clipped
+// to the region so neighbouring frames do not spill in
+const pageContent = (page: PdfPage, index: number, count: number, options: PdfOptions) => {
+  const padding = options.padding ?? 0;
+  const header = options.header ?? null;
+  const x = page.region.x - padding;
+  const y = page.region.y - padding;
+  const width = Math.max(page.region.width + padding * 2, 1);
+  const height = Math.max(page.region.height + padding * 2, 1);
+
+  const landscape = width > height;
+  const pageWidth = landscape ? PAGE_LONG : PAGE_SHORT;
+  const pageHeight = landscape ? PAGE_SHORT : PAGE_LONG;
+  const top = MARGIN + (header ? HEADER_HEIGHT : 0);
+  const availableWidth = pageWidth - MARGIN * 2;
+  const availableHeight = pageHeight - top - MARGIN;
+  const scale = Math.min(availableWidth / width, availableHeight / height, MAX_SCALE);
+  const left = MARGIN + (availableWidth - width * scale) / 2;
+  const contentTop = top + (availableHeight - height * scale) / 2;
+
+  // Maps the board's y-down world onto the fitted area of the y-up page
+  const transform = matrix([scale, 0, 0, -scale, left - x * scale, pageHeight - contentTop + y * scale]);
+  const parts = [`q\n${transform} cm\n${num(x)} ${num(y)} ${num(width)} ${num(height)} re W n`];
+  page.elements.forEach(element => {
+    if (element.hidden) return;
+    const ops = elementToPdf(element);
+    if (ops) parts.push(ops);
+  });
+  parts.push('Q');
+
+  if (header) {
+    const baseline = pageHeight - MARGIN - 14;
+    const details = count > 1 ? `${header.date}  ·  Page ${index + 1} of ${count}` : header.date;
+    if (header.title) parts.push(`BT /F2 14 Tf 0 0 0 rg ${num(MARGIN)} ${num(baseline)} Td ${pdfString(header.title)} Tj ET`);
+    parts.push(`BT /F1 9 Tf 0.4 0.4 0.4 rg ${num(MARGIN)} ${num(baseline - 14)} Td ${pdfString(details)} Tj ET`);
+    const rule = pageHeight - MARGIN - HEADER_HEIGHT + 10;
+    parts.push(`0.8 0.8 0.8 RG 0.5 w ${num(MARGIN)} ${num(rule)} m ${num(pageWidth - MARGIN)} ${num(rule)} l S`);
+  }
+
+  return { width: pageWidth, height: pageHeight, content: parts.join('\n') };
+};
+
+// Serializes the objects with their cross-reference table. Every byte is
+// ASCII, so string offsets are byte offsets.
+const writePdf = (objects: string[]): Uint8Array => {
+  let out = '%PDF-1.4\n';
+  const offsets = objects.map((body, i) => {
+    const offset = out.length;
+    out += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xref = out.length;
+  out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  out += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return new TextEncoder().encode(out);
+};
+
+export const elementsToPdf = (pages: PdfPage[], options: PdfOptions = {}): Uint8Array => {
+  const contents = pages.map((page, i) => pageContent(page, i, pages.length, options));
+  // Objects 1-5 are fixed; each page then adds itself and its content stream
+  const pageRef = (i: number) => `${6 + i * 2} 0 R`;
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${contents.map((_, i) => pageRef(i)).join(' ')}] /Count ${contents.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    `<< /Producer (FreeBoard)${options.header?.title ? ` /Title ${pdfString(options.header.title)}` : ''} >>`,
+  ];
+  contents.forEach(({ width, height, content }, i) => {
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(width)} ${num(height)}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${7 + i * 2} 0 R >>`
+    );
+    objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+  });
+  return writePdf(objects);
+};
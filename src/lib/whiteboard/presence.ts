@@ -0,0 +1,91 @@
+import { Point } from './types';
+
+// --- PRESENCE ---
+
+export interface RemoteCursor {
+  id: string;
+  name: string;
+  // World coordinates, so every client can place it under its own zoom/pan.
+  position: Point;
+  lastSeen: number;
+}
+
+export const CURSOR_THROTTLE_MS = 50;
+export const CURSOR_IDLE_MS = 3000;
+export const CURSOR_FADE_MS = 600;
+export const CURSOR_EXPIRE_MS = 60000;
+const IDLE_OPACITY = 0.25;
+// Clock ticks while a cursor fades, and between checks for expired ones
+const FADE_FRAME_MS = 1000 / 30;
+const IDLE_CHECK_MS = 1000;
+
+// Full opacity until the cursor goes idle, then a linear fade down to the
+// idle opacity over CURSOR_FADE_MS.
+export const getCursorOpacity = (cursor: RemoteCursor, now: number): number => {
+  const progress = Math.min(1, Math.max(0, (now - cursor.lastSeen - CURSOR_IDLE_MS) / CURSOR_FADE_MS));
+  return 1 - (1 - IDLE_OPACITY) * progress;
+};
+
+// How long the clock can wait before a cursor's opacity changes again.
+export const getCursorTickDelay = (cursors: RemoteCursor[], now: number): number =>
+  cursors.reduce((delay, cursor) => {
+    const idle = now - cursor.lastSeen;
+    if (idle >= CURSOR_IDLE_MS + CURSOR_FADE_MS) return delay;
+    if (idle >= CURSOR_IDLE_MS) return Math.min(delay, FADE_FRAME_MS);
+    return Math.min(delay, CURSOR_IDLE_MS - idle);
+  }, IDLE_CHECK_MS);
+
+const PRESENCE_COLORS = [
+  '#e03131',
+  '#1971c2',
+  '#2f9e44',
+  '#f08c00',
+  '#9c36b5',
+  '#0c8599',
+  '#d6336c',
+  '#5c940d',
+  '#6741d9',
+  '#e8590c',
+];
+
+// Stable color for a participant, identical on every client and shared by the
+// participant list and the canvas cursors.
+export const colorForUser = (id: string): string => {
+  let hash = 0;
+  for (let i = 0; i < id.length; i++) {
+    hash = (hash * 31 + id.charCodeAt(i)) | 0;
+  }
+  return PRESENCE_COLORS[Math.abs(hash) % PRESENCE_COLORS.length];
+};
+
+// Calls `fn` at most once per `wait` ms, always delivering the latest args.
+export const throttle = <A extends unknown[]>(fn: (...args: A) => void, wait: number) => {
+  let last = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let pending: A | null = null;
+
+  const throttled = (...args: A) => {
+    const now = Date.now();
+    pending = args;
+    if (now - last >= wait) {
+      last = now;
+      pending = null;
+      fn(...args);
+    } else if (!timer) {
+      timer = setTimeout(() => {
+        timer = null;
+        last = Date.now();
+        if (pending) fn(...pending);
+        pending = null;
+      }, wait - (now - last));
+    }
+  };
+
+  throttled.cancel = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    pending = null;
+  };
+
+  return throttled;
+};
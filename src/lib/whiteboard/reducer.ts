@@ -0,0 +1,171 @@
+import { Point, WhiteboardElement } from './types';
+import { WhiteboardOp, applyOp, opElementIds } from './ops';
+import { BoardDocument, emptyDocument, materialize, materializeRecord, mergeDocuments } from './crdt';
+import { HistoryEntry, invertOp } from './history';
+import { Camera, clampZoom } from './camera';
+import { SpatialIndex, buildSpatialIndex, emptySpatialIndex, updateSpatialIndex } from './spatial';
+
+export interface WhiteboardState {
+  doc: BoardDocument;
+  // Visible elements in paint order, derived from `doc` after every op.
+  elements: WhiteboardElement[];
+  // Bounds of `elements`, kept in step with them for culling and hit queries.
+  index: SpatialIndex;
+  selectedElementIds: string[];
+  // Local user's history only; remote ops never touch these stacks.
+  undoStack: HistoryEntry[];
+  redoStack: HistoryEntry[];
+  zoom: number;
+  pan: Point;
+}
+
+export type WhiteboardAction =
+  | { type: 'APPLY_OPS'; ops: WhiteboardOp[]; local: boolean }
+  // A peer's replica, sent when joining a board; never part of the history
+  | { type: 'MERGE_DOCUMENT'; doc: BoardDocument }
+  | { type: 'SELECT_ELEMENTS'; ids: string[] }
+  | { type: 'CLEAR_SELECTION' }
+  // `ops` are the top entry of the matching stack, stamped for broadcasting.
+  | { type: 'UNDO'; ops: WhiteboardOp[] }
+  | { type: 'REDO'; ops: WhiteboardOp[] }
+  | { type: 'SET_ZOOM'; zoom: number }
+  | { type: 'SET_PAN'; pan: Point }
+  | { type: 'SET_CAMERA'; camera: Camera };
+
+export const initialWhiteboardState: WhiteboardState = {
+  doc: emptyDocument,
+  elements: [],
+  index: emptySpatialIndex,
+  selectedElementIds: [],
+  undoStack: [],
+  redoStack: [],
+  zoom: 1,
+  pan: { x: 0, y: 0 },
+};
+
+// Merges ops into the document and returns the entry that reverts them. Ops
+// are idempotent and commutative, so duplicates and out-of-order deliveries
+// need no special handling.
+const applyOps = (state: WhiteboardState, ops: WhiteboardOp[]): [WhiteboardState, HistoryEntry] => {
+  const inverse: HistoryEntry = { ops: [] };
+  const doc = ops.reduce((current, op) => {
+    const undo = invertOp(current, op);
+    if (undo) inverse.ops.unshift(undo);
+    return applyOp(current, op);
+  }, state.doc);
+
+  // Field updates leave visibility and z-order alone, so the elements they
+  // touch are rebuilt in place instead of sorting the whole document again;
+  // on large boards that is most of the cost of an op
+  if (ops.every(op => op.kind === 'update' && !('type' in op.updates))) {
+    const ids = new Set(ops.map(op => (op.kind === 'update' ? op.id : '')));
+    const patched = new Map<string, WhiteboardElement>();
+    const elements = state.elements.map(el => {
+      if (!ids.has(el.id)) return el;
+      const element = materializeRecord(doc.records[el.id]);
+      patched.set(el.id, element);
+      return element;
+    });
+    const index = updateSpatialIndex(state.index, patched.keys(), id => patched.get(id));
+    return [{ ...state, doc, elements, index }, inverse];
+  }
+
+  const elements = materialize(doc);
+  const byId = new Map(elements.map(el => [el.id, el]));
+  // Only the touched elements are re-indexed, unless a clear may have hidden any
+  const touched = ops.map(opElementIds);
+  const index = touched.includes(null)
+    ? buildSpatialIndex(elements)
+    : updateSpatialIndex(state.index, new Set(touched.flat() as string[]), id => byId.get(id));
+  const next = {
+    ...state,
+    doc,
+    elements,
+    index,
+    selectedElementIds: state.selectedElementIds.filter(id => byId.has(id)),
+  };
+  return [next, inverse];
+};
+
+export const whiteboardReducer = (state: WhiteboardState, action: WhiteboardAction): WhiteboardState => {
+  switch (action.type) {
+    case 'APPLY_OPS': {
+      const [next, inverse] = applyOps(state, action.ops);
+      if (!action.local || inverse.ops.length === 0) return next;
+      return {
+        ...next,
+        undoStack: [...state.undoStack, inverse],
+        redoStack: [],
+      };
+    }
+
+    case 'MERGE_DOCUMENT': {
+      const doc = mergeDocuments(state.doc, action.doc);
+      const elements = materialize(doc);
+      const ids = new Set(elements.map(el => el.id));
+      return {
+        ...state,
+        doc,
+        elements,
+        index: buildSpatialIndex(elements),
+        selectedElementIds: state.selectedElementIds.filter(id => ids.has(id)),
+      };
+    }
+
+    case 'SELECT_ELEMENTS':
+      return {
+        ...state,
+        selectedElementIds: action.ids,
+      };
+
+    case 'CLEAR_SELECTION':
+      return {
+        ...state,
+        selectedElementIds: [],
+      };
+
+    case 'UNDO': {
+      if (state.undoStack.length === 0) return state;
+      const [next, inverse] = applyOps(state, action.ops);
+      return {
+        ...next,
+        undoStack: state.undoStack.slice(0, -1),
+        redoStack: [...state.redoStack, inverse],
+        selectedElementIds: [],
+      };
+    }
+
+    case 'REDO': {
+      if (state.redoStack.length === 0) return state;
+      const [next, inverse] = applyOps(state, action.ops);
+      return {
+        ...next,
+        undoStack: [...state.undoStack, inverse],
+        redoStack: state.redoStack.slice(0, -1),
+        selectedElementIds: [],
+      };
+    }
+
+    case 'SET_ZOOM':
+      return {
+        ...state,
+        zoom: clampZoom(action.zoom),
+      };
+
+    case 'SET_PAN':
+      return {
+        ...state,
+        pan: action.pan,
+      };
+
+    case 'SET_CAMERA':
+      return {
+        ...state,
+        zoom: clampZoom(action.camera.zoom),
+        pan: action.camera.pan,
+      };
+
+    default:
+      return state;
+  }
+};
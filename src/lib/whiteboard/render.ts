@@ -0,0 +1,207 @@
+import { BBox, Point, WhiteboardElement } from './types';
+import {
+  getArrowHead,
+  getBoundsCenter,
+  getCircleGeometry,
+  getElementBounds,
+  getRotatedBounds,
+  getTextFont,
+  unionBounds,
+} from './geometry';
+
+// --- CANVAS RENDERING ---
+// Element drawing shared by the live canvas and by anything that rasterizes
+// elements outside the viewport (clipboard images, exports).
+
+// Drawing works the same on a DOM canvas and on one transferred to a worker
+export type Context2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+// Stroke width at a point, from a fraction of the base width at no pressure
+// up to the full width at full pressure.
+const MIN_PRESSURE_WIDTH = 0.2;
+
+export const getPressureWidth = (strokeWidth: number, p: Point) =>
+  strokeWidth * (MIN_PRESSURE_WIDTH + (1 - MIN_PRESSURE_WIDTH) * (p.pressure ?? 0.5));
+
+const midpoint = (a: Point, b: Point): Point => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+
+// Smooth path through freehand points: quadratic curves run between the
+// midpoints of consecutive segments, using each sample as the control point.
+const traceSmoothPath = (ctx: Context2D, points: Point[]) => {
+  ctx.moveTo(points[0].x, points[0].y);
+  for (let i = 1; i < points.length - 1; i++) {
+    const mid = midpoint(points[i], points[i + 1]);
+    ctx.quadraticCurveTo(points[i].x, points[i].y, mid.x, mid.y);
+  }
+  const last = points[points.length - 1];
+  ctx.lineTo(last.x, last.y);
+};
+
+// Variable-width freehand: the same curves as traceSmoothPath, each stroked
+// at the width of its control point, with round caps hiding the joints.
+const drawPressureStroke = (ctx: Context2D, element: WhiteboardElement) => {
+  const { points, strokeWidth } = element;
+  if (points.length === 1) {
+    ctx.fillStyle = element.color;
+    ctx.beginPath();
+    ctx.arc(points[0].x, points[0].y, getPressureWidth(strokeWidth, points[0]) / 2, 0, 2 * Math.PI);
+    ctx.fill();
+    return;
+  }
+  let start = points[0];
+  for (let i = 1; i < points.length; i++) {
+    const end = i < points.length - 1 ? midpoint(points[i], points[i + 1]) : points[i];
+    ctx.lineWidth = getPressureWidth(strokeWidth, points[i]);
+    ctx.beginPath();
+    ctx.moveTo(start.x, start.y);
+    ctx.quadraticCurveTo(points[i].x, points[i].y, end.x, end.y);
+    ctx.stroke();
+    start = end;
+  }
+};
+
+export const drawElement = (ctx: Context2D, element: WhiteboardElement) => {
+  if (element.hidden) return;
+
+  if (element.rotation) {
+    const center = getBoundsCenter(getElementBounds(element));
+    ctx.save();
+    ctx.translate(center.x, center.y);
+    ctx.rotate(element.rotation);
+    ctx.translate(-center.x, -center.y);
+    drawElement(ctx, { ...element, rotation: 0 });
+    ctx.restore();
+    return;
+  }
+
+  ctx.strokeStyle = element.color;
+  ctx.lineWidth = element.strokeWidth;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  switch (element.type) {
+    case 'freehand':
+      if (element.points.some(p => p.pressure !== undefined)) {
+        drawPressureStroke(ctx, element);
+      } else if (element.points.length > 1) {
+        ctx.beginPath();
+        traceSmoothPath(ctx, element.points);
+        ctx.stroke();
+      }
+      break;
+
+    // Pixel eraser: clears everything painted below it
+    case 'eraser':
+      ctx.save();
+      ctx.globalCompositeOperation = 'destination-out';
+      ctx.strokeStyle = '#000000';
+      ctx.fillStyle = '#000000';
+      ctx.beginPath();
+      if (element.points.length === 1) {
+        ctx.arc(element.points[0].x, element.points[0].y, element.strokeWidth / 2, 0, 2 * Math.PI);
+        ctx.fill();
+      } else if (element.points.length > 1) {
+        traceSmoothPath(ctx, element.points);
+        ctx.stroke();
+      }
+      ctx.restore();
+      break;
+
+    case 'rect':
+      if (element.points.length === 2) {
+        const [start, end] = element.points;
+        ctx.strokeRect(start.x, start.y, end.x - start.x, end.y - start.y);
+      }
+      break;
+
+    case 'circle':
+      if (element.points.length === 2) {
+        const { center, radius } = getCircleGeometry(element);
+        ctx.beginPath();
+        ctx.arc(center.x, center.y, radius, 0, 2 * Math.PI);
+        ctx.stroke();
+      }
+      break;
+
+    case 'arrow':
+      if (element.points.length === 2) {
+        const [start, end] = element.points;
+        drawArrow(ctx, start, end);
+      }
+      break;
+
+    case 'text':
+      if (element.points.length > 0 && element.text) {
+        ctx.font = getTextFont(element.fontSize || 16);
+        ctx.fillStyle = element.color;
+        ctx.fillText(element.text, element.points[0].x, element.points[0].y);
+      }
+      break;
+  }
+};
+
+const drawArrow = (ctx: Context2D, start: Point, end: Point) => {
+  const [left, right] = getArrowHead(start, end);
+
+  // Draw line
+  ctx.beginPath();
+  ctx.moveTo(start.x, start.y);
+  ctx.lineTo(end.x, end.y);
+  ctx.stroke();
+
+  // Draw arrowhead
+  ctx.beginPath();
+  ctx.moveTo(end.x, end.y);
+  ctx.lineTo(left.x, left.y);
+  ctx.moveTo(end.x, end.y);
+  ctx.lineTo(right.x, right.y);
+  ctx.stroke();
+};
+
+export interface RasterOptions {
+  scale?: number;
+  padding?: number;
+  // CSS color, or null for a transparent background.
+  background?: string | null;
+  // World-space region to render; defaults to the bounds of `elements`.
+  region?: BBox;
+}
+
+// Renders elements into a fresh canvas sized to their bounds, independent of
+// the on-screen camera.
+export const renderElementsToCanvas = (
+  elements: WhiteboardElement[],
+  { scale = 1, padding = 16, background = null, region }: RasterOptions = {}
+): HTMLCanvasElement => {
+  const bounds = region ?? unionBounds(elements.map(getRotatedBounds));
+  // Strokes extend half their width past the geometric bounds.
+  const bleed = region ? 0 : Math.max(0, ...elements.map(el => el.strokeWidth / 2));
+  const width = bounds.width + (padding + bleed) * 2;
+  const height = bounds.height + (padding + bleed) * 2;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.ceil(width * scale));
+  canvas.height = Math.max(1, Math.ceil(height * scale));
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return canvas;
+
+  ctx.save();
+  ctx.scale(scale, scale);
+  ctx.translate(padding + bleed - bounds.x, padding + bleed - bounds.y);
+  elements.forEach(element => drawElement(ctx, element));
+  ctx.restore();
+
+  // Filled last, behind the drawing, so eraser masks do not cut through it
+  if (background) {
+    ctx.globalCompositeOperation = 'destination-over';
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  return canvas;
+};
+
+export const canvasToBlob = (canvas: HTMLCanvasElement) =>
+  new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode PNG'))), 'image/png')
+  );
@@ -0,0 +1,196 @@
+import { Point, WhiteboardElement } from './types';
+import { Camera, applyCamera, getVisibleWorldBounds } from './camera';
+import { Context2D, drawElement } from './render';
+import { Overlay, drawRemoteCursors, drawWorldOverlay, emptyOverlay } from './overlay';
+import { SpatialIndex, emptySpatialIndex, querySpatialIndex } from './spatial';
+import { applyErasePreview } from './eraser';
+
+// --- LAYERED RENDERER ---
+// Draws the board onto two stacked canvases. The base layer shows the
+// committed elements, rendered into an offscreen bitmap only when they or the
+// camera change and copied from there otherwise. The live layer holds what
+// changes on every pointer move: in-progress elements, overlays and remote
+// cursors. Updates only mark layers dirty and drawing happens once per
+// animation frame, so a pointer move costs the same however big the board is.
+// The same renderer runs on the main thread or inside the board worker.
+
+export type LayerCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+export interface Viewport {
+  camera: Camera;
+  // CSS pixels
+  width: number;
+  height: number;
+  pixelRatio: number;
+}
+
+// The parts of WhiteboardState the base layer is drawn from
+export interface RenderedBoard {
+  elements: WhiteboardElement[];
+  index: SpatialIndex;
+}
+
+// How an in-progress drag changes the committed board before it is
+// committed: elements being transformed are left to the live layer, and an
+// erase drops or cuts elements.
+export interface BoardPreview {
+  liveIds: string[];
+  erasedIds: string[];
+  pieces: Record<string, Point[][]>;
+}
+
+export interface LiveScene {
+  // In-progress elements drawn above the board. Eraser masks among them cut
+  // into the base layer, as they will once committed.
+  elements: WhiteboardElement[];
+  overlay: Overlay;
+}
+
+export const emptyPreview: BoardPreview = { liveIds: [], erasedIds: [], pieces: {} };
+
+const sameViewport = (a: Viewport, b: Viewport) =>
+  a.camera.zoom === b.camera.zoom &&
+  a.camera.pan.x === b.camera.pan.x &&
+  a.camera.pan.y === b.camera.pan.y &&
+  a.width === b.width &&
+  a.height === b.height &&
+  a.pixelRatio === b.pixelRatio;
+
+// Committed elements in view, in paint order, with the preview applied
+const getBaseElements = (board: RenderedBoard, viewport: Viewport, preview: BoardPreview) => {
+  const inView = new Set(querySpatialIndex(board.index, getVisibleWorldBounds(viewport.camera, viewport.width, viewport.height)));
+  const live = new Set(preview.liveIds);
+  const elements = board.elements.filter(el => inView.has(el.id) && !live.has(el.id));
+  return applyErasePreview(elements, preview.erasedIds, preview.pieces);
+};
+
+// Both canvas kinds have the same 2D API, but TypeScript cannot call
+// getContext on the union
+const getContext = (canvas: LayerCanvas) => (canvas as HTMLCanvasElement).getContext('2d') as Context2D | null;
+
+const createBitmap = (): LayerCanvas =>
+  typeof OffscreenCanvas !== 'undefined' ? new OffscreenCanvas(1, 1) : document.createElement('canvas');
+
+// Workers without requestAnimationFrame fall back to a timer
+const requestFrame = (callback: () => void): number =>
+  typeof requestAnimationFrame === 'function' ? requestAnimationFrame(callback) : self.setTimeout(callback, 16);
+
+const cancelFrame = (frame: number) =>
+  typeof cancelAnimationFrame === 'function' ? cancelAnimationFrame(frame) : self.clearTimeout(frame);
+
+export const createLayeredRenderer = (base: LayerCanvas, live: LayerCanvas) => {
+  const bitmap = createBitmap();
+  let viewport: Viewport = { camera: { zoom: 1, pan: { x: 0, y: 0 } }, width: 0, height: 0, pixelRatio: 1 };
+  let board: RenderedBoard = { elements: [], index: emptySpatialIndex };
+  let preview = emptyPreview;
+  let scene: LiveScene = { elements: [], overlay: emptyOverlay };
+
+  let bitmapDirty = true;
+  let baseDirty = true;
+  let liveDirty = true;
+  // Whether the base layer currently shows live masks that must be cleared
+  let baseMasked = false;
+  let frame: number | null = null;
+
+  const prepare = (ctx: Context2D) => {
+    ctx.setTransform(viewport.pixelRatio, 0, 0, viewport.pixelRatio, 0, 0);
+    ctx.clearRect(0, 0, viewport.width, viewport.height);
+  };
+
+  const renderBitmap = () => {
+    const ctx = getContext(bitmap);
+    if (!ctx) return;
+    prepare(ctx);
+    ctx.save();
+    applyCamera(ctx, viewport.camera);
+    getBaseElements(board, viewport, preview).forEach(element => drawElement(ctx, element));
+    ctx.restore();
+  };
+
+  const renderBase = () => {
+    const ctx = getContext(base);
+    if (!ctx) return;
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, base.width, base.height);
+    ctx.drawImage(bitmap, 0, 0);
+
+    const masks = scene.elements.filter(el => el.type === 'eraser');
+    if (masks.length > 0) {
+      ctx.setTransform(viewport.pixelRatio, 0, 0, viewport.pixelRatio, 0, 0);
+      applyCamera(ctx, viewport.camera);
+      masks.forEach(mask => drawElement(ctx, mask));
+    }
+    baseMasked = masks.length > 0;
+  };
+
+  const renderLive = () => {
+    const ctx = getContext(live);
+    if (!ctx) return;
+    prepare(ctx);
+    ctx.save();
+    applyCamera(ctx, viewport.camera);
+    scene.elements.forEach(element => {
+      if (element.type !== 'eraser') drawElement(ctx, element);
+    });
+    drawWorldOverlay(ctx, scene.overlay, viewport.camera.zoom);
+    ctx.restore();
+    drawRemoteCursors(ctx, scene.overlay.cursors, viewport.camera, scene.overlay.now);
+  };
+
+  const render = () => {
+    frame = null;
+    if (bitmapDirty) renderBitmap();
+    if (bitmapDirty || baseDirty) renderBase();
+    if (liveDirty) renderLive();
+    bitmapDirty = baseDirty = liveDirty = false;
+  };
+
+  const schedule = () => {
+    if (frame === null) frame = requestFrame(render);
+  };
+
+  return {
+    setViewport: (next: Viewport) => {
+      if (sameViewport(viewport, next)) return;
+      viewport = next;
+      // Resizing clears a canvas, so only touch the sizes when they change
+      const width = Math.max(1, Math.round(next.width * next.pixelRatio));
+      const height = Math.max(1, Math.round(next.height * next.pixelRatio));
+      [base, live, bitmap].forEach(canvas => {
+        if (canvas.width !== width) canvas.width = width;
+        if (canvas.height !== height) canvas.height = height;
+      });
+      bitmapDirty = liveDirty = true;
+      schedule();
+    },
+
+    setBoard: (next: RenderedBoard) => {
+      if (next.elements === board.elements && next.index === board.index) return;
+      board = next;
+      bitmapDirty = true;
+      schedule();
+    },
+
+    setPreview: (next: BoardPreview) => {
+      preview = next;
+      bitmapDirty = true;
+      schedule();
+    },
+
+    setLiveScene: (next: LiveScene) => {
+      scene = next;
+      liveDirty = true;
+      // Masks are drawn onto the base layer, which must be restored from the
+      // bitmap once they are gone
+      if (baseMasked || next.elements.some(el => el.type === 'eraser')) baseDirty = true;
+      schedule();
+    },
+
+    dispose: () => {
+      if (frame !== null) cancelFrame(frame);
+      frame = null;
+    },
+  };
+};
+
+export type LayeredRenderer = ReturnType<typeof createLayeredRenderer>;
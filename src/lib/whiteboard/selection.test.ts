@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { WhiteboardElement } from './types';
+import { findElementAt, isElementInteractive } from './geometry';
+import { selectInPolygon, selectInRect } from './selection';
+
+const base = { color: '#1e1e1e', strokeWidth: 4 };
+
+const stroke: WhiteboardElement = {
+  ...base,
+  id: 'stroke',
+  type: 'freehand',
+  points: [
+    { x: 0, y: 50 },
+    { x: 100, y: 50 },
+  ],
+};
+
+// Drawn after the stroke, so it is on top where they cross
+const mask: WhiteboardElement = {
+  ...base,
+  id: 'mask',
+  type: 'eraser',
+  strokeWidth: 20,
+  points: [
+    { x: 50, y: 0 },
+    { x: 50, y: 100 },
+  ],
+};
+
+const rect: WhiteboardElement = { ...base, id: 'rect', type: 'rect', points: [{ x: 200, y: 0 }, { x: 260, y: 40 }] };
+
+const board = [stroke, mask, rect];
+
+describe('isElementInteractive', () => {
+  it('leaves out hidden and locked elements and eraser masks', () => {
+    expect(isElementInteractive(stroke)).toBe(true);
+    expect(isElementInteractive({ ...stroke, hidden: true })).toBe(false);
+    expect(isElementInteractive({ ...stroke, locked: true })).toBe(false);
+    expect(isElementInteractive(mask)).toBe(false);
+  });
+});
+
+describe('picking with eraser masks on the board', () => {
+  it('clicks through a mask to the element below', () => {
+    expect(findElementAt(board, { x: 50, y: 50 }, 2)?.id).toBe('stroke');
+    expect(findElementAt(board, { x: 50, y: 10 }, 2)).toBeUndefined();
+  });
+
+  it('never picks a mask with a marquee or lasso', () => {
+    const everything = { x: -10, y: -10, width: 300, height: 120 };
+    expect(selectInRect(board, everything, 'contain')).toEqual(['stroke', 'rect']);
+    expect(selectInRect(board, { x: 40, y: 0, width: 20, height: 20 }, 'intersect')).toEqual([]);
+    const lasso = [
+      { x: -10, y: -10 },
+      { x: 120, y: -10 },
+      { x: 120, y: 120 },
+      { x: -10, y: 120 },
+    ];
+    expect(selectInPolygon(board, lasso, 'intersect')).toEqual(['stroke']);
+  });
+
+  it('leaves masks out of select all', () => {
+    expect(board.filter(isElementInteractive).map(el => el.id)).toEqual(['stroke', 'rect']);
+  });
+});
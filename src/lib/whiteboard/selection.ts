@@ -0,0 +1,67 @@
+import { BBox, Point, WhiteboardElement } from './types';
+import {
+  getBoundsCorners,
+  getElementOutline,
+  isElementInteractive,
+  pointInPolygon,
+  segmentsIntersect,
+} from './geometry';
+
+// --- REGION SELECTION ---
+
+// 'contain' picks only elements that lie completely inside the region,
+// 'intersect' also picks elements that merely touch it.
+export type RegionSelectMode = 'contain' | 'intersect';
+
+// An in-progress rubber-band or lasso selection, in world coordinates.
+export interface SelectionRegion {
+  kind: 'marquee' | 'lasso';
+  points: Point[];
+  additive: boolean;
+}
+
+const outlineCrossesPolygon = (outline: Point[], polygon: Point[]): boolean => {
+  for (let i = 1; i < outline.length; i++) {
+    for (let j = 0; j < polygon.length; j++) {
+      const k = (j + 1) % polygon.length;
+      if (segmentsIntersect(outline[i - 1], outline[i], polygon[j], polygon[k])) return true;
+    }
+  }
+  return false;
+};
+
+export const elementInPolygon = (
+  element: WhiteboardElement,
+  polygon: Point[],
+  mode: RegionSelectMode
+): boolean => {
+  if (polygon.length < 3) return false;
+  const outline = getElementOutline(element);
+  if (outline.length === 0) return false;
+
+  if (mode === 'contain') {
+    return outline.every(p => pointInPolygon(p, polygon));
+  }
+  return outline.some(p => pointInPolygon(p, polygon)) || outlineCrossesPolygon(outline, polygon);
+};
+
+// Ids of the elements picked by a free-form lasso. Locked and hidden
+// elements and eraser masks are never picked.
+export const selectInPolygon = (
+  elements: WhiteboardElement[],
+  polygon: Point[],
+  mode: RegionSelectMode
+): string[] =>
+  elements.filter(el => isElementInteractive(el) && elementInPolygon(el, polygon, mode)).map(el => el.id);
+
+// Ids of the elements picked by a rubber-band rectangle.
+export const selectInRect = (elements: WhiteboardElement[], rect: BBox, mode: RegionSelectMode): string[] =>
+  selectInPolygon(elements, getBoundsCorners(rect), mode);
+
+// Normalized rectangle spanned by two drag points.
+export const rectFromPoints = (a: Point, b: Point): BBox => ({
+  x: Math.min(a.x, b.x),
+  y: Math.min(a.y, b.y),
+  width: Math.abs(b.x - a.x),
+  height: Math.abs(b.y - a.y),
+});
@@ -0,0 +1,227 @@
+import { BBox, Point, WhiteboardElement } from './types';
+import { ARROW_HEAD_LENGTH, getRotatedBounds } from './geometry';
+
+// --- SPATIAL INDEX ---
+// Persistent quadtree of element bounds. An update copies only the nodes on
+// the path to the changed entry, so each reducer state carries its own index
+// without rebuilding it, and earlier states (kept by React) stay valid.
+// Entries live in the deepest node whose quadrant contains them entirely;
+// entries straddling a split line stay in the parent.
+
+interface IndexEntry {
+  id: string;
+  bounds: BBox;
+}
+
+interface QuadNode {
+  // Always square
+  bounds: BBox;
+  entries: IndexEntry[];
+  children: QuadNode[] | null;
+}
+
+export interface SpatialIndex {
+  root: QuadNode;
+  // Indexed bounds by id, needed to find an entry again when removing it
+  bounds: Map<string, BBox>;
+}
+
+const NODE_CAPACITY = 16;
+const MAX_DEPTH = 16;
+const INITIAL_SIZE = 4096;
+
+const createLeaf = (x: number, y: number, size: number): QuadNode => ({
+  bounds: { x, y, width: size, height: size },
+  entries: [],
+  children: null,
+});
+
+export const emptySpatialIndex: SpatialIndex = {
+  root: createLeaf(-INITIAL_SIZE / 2, -INITIAL_SIZE / 2, INITIAL_SIZE),
+  bounds: new Map(),
+};
+
+// Area an element can paint: its rotated bounds plus half the stroke, and the
+// arrowhead barbs that reach past the shaft.
+export const getIndexBounds = (element: WhiteboardElement): BBox => {
+  const bounds = getRotatedBounds(element);
+  const padding = element.strokeWidth / 2 + (element.type === 'arrow' ? ARROW_HEAD_LENGTH : 0);
+  return {
+    x: bounds.x - padding,
+    y: bounds.y - padding,
+    width: bounds.width + padding * 2,
+    height: bounds.height + padding * 2,
+  };
+};
+
+export const boundsIntersect = (a: BBox, b: BBox): boolean =>
+  a.x <= b.x + b.width && b.x <= a.x + a.width && a.y <= b.y + b.height && b.y <= a.y + a.height;
+
+const boundsContain = (outer: BBox, inner: BBox): boolean =>
+  inner.x >= outer.x &&
+  inner.y >= outer.y &&
+  inner.x + inner.width <= outer.x + outer.width &&
+  inner.y + inner.height <= outer.y + outer.height;
+
+const sameBounds = (a: BBox, b: BBox) => a.x === b.x && a.y === b.y && a.width === b.width && a.height === b.height;
+
+// Index of the child quadrant that fully contains `b`, or -1 if it straddles.
+const quadrantFor = (node: BBox, b: BBox): number => {
+  const midX = node.x + node.width / 2;
+  const midY = node.y + node.height / 2;
+  const column = b.x + b.width <= midX ? 0 : b.x >= midX ? 1 : -1;
+  const row = b.y + b.height <= midY ? 0 : b.y >= midY ? 1 : -1;
+  return column === -1 || row === -1 ? -1 : row * 2 + column;
+};
+
+const splitNode = (node: QuadNode, depth: number): QuadNode => {
+  const half = node.bounds.width / 2;
+  const { x, y } = node.bounds;
+  let children = [
+    createLeaf(x, y, half),
+    createLeaf(x + half, y, half),
+    createLeaf(x, y + half, half),
+    createLeaf(x + half, y + half, half),
+  ];
+  const entries: IndexEntry[] = [];
+  node.entries.forEach(entry => {
+    const quadrant = quadrantFor(node.bounds, entry.bounds);
+    if (quadrant === -1) {
+      entries.push(entry);
+    } else {
+      children = children.map((child, i) => (i === quadrant ? insertNode(child, entry, depth + 1) : child));
+    }
+  });
+  return { bounds: node.bounds, entries, children };
+};
+
+const insertNode = (node: QuadNode, entry: IndexEntry, depth: number): QuadNode => {
+  if (!node.children) {
+    const next = { ...node, entries: [...node.entries, entry] };
+    return next.entries.length > NODE_CAPACITY && depth < MAX_DEPTH ? splitNode(next, depth) : next;
+  }
+  const quadrant = quadrantFor(node.bounds, entry.bounds);
+  if (quadrant === -1) return { ...node, entries: [...node.entries, entry] };
+  const children = [...node.children];
+  children[quadrant] = insertNode(children[quadrant], entry, depth + 1);
+  return { ...node, children };
+};
+
+// Doubles the root towards `b` until it fits; the old root becomes one
+// quadrant of the new one.
+const growRoot = (root: QuadNode, b: BBox): QuadNode => {
+  let node = root;
+  while (!boundsContain(node.bounds, b)) {
+    const size = node.bounds.width;
+    const left = b.x < node.bounds.x;
+    const up = b.y < node.bounds.y;
+    const x = left ? node.bounds.x - size : node.bounds.x;
+    const y = up ? node.bounds.y - size : node.bounds.y;
+    const children = [
+      createLeaf(x, y, size),
+      createLeaf(x + size, y, size),
+      createLeaf(x, y + size, size),
+      createLeaf(x + size, y + size, size),
+    ];
+    children[(up ? 2 : 0) + (left ? 1 : 0)] = node;
+    node = { bounds: { x, y, width: size * 2, height: size * 2 }, entries: [], children };
+  }
+  return node;
+};
+
+const removeNode = (node: QuadNode, id: string, b: BBox): QuadNode => {
+  const index = node.entries.findIndex(entry => entry.id === id);
+  if (index !== -1) return { ...node, entries: node.entries.filter((_, i) => i !== index) };
+  if (!node.children) return node;
+  const quadrant = quadrantFor(node.bounds, b);
+  if (quadrant === -1) return node;
+  const child = removeNode(node.children[quadrant], id, b);
+  if (child === node.children[quadrant]) return node;
+  const children = [...node.children];
+  children[quadrant] = child;
+  return { ...node, children };
+};
+
+const isFiniteBounds = (b: BBox) => [b.x, b.y, b.width, b.height].every(Number.isFinite);
+
+// Re-indexes the given ids. `getElement` returns the element's current state,
+// or undefined once it is gone from the board.
+export const updateSpatialIndex = (
+  index: SpatialIndex,
+  ids: Iterable<string>,
+  getElement: (id: string) => WhiteboardElement | undefined
+): SpatialIndex => {
+  let root = index.root;
+  let bounds: Map<string, BBox> | null = null;
+
+  for (const id of ids) {
+    const previous = (bounds ?? index.bounds).get(id);
+    const element = getElement(id);
+    const next = element && element.points.length > 0 ? getIndexBounds(element) : undefined;
+    if (previous && next && sameBounds(previous, next)) continue;
+
+    bounds = bounds ?? new Map(index.bounds);
+    if (previous) {
+      root = removeNode(root, id, previous);
+      bounds.delete(id);
+    }
+    if (next && isFiniteBounds(next)) {
+      root = insertNode(growRoot(root, next), { id, bounds: next }, 0);
+      bounds.set(id, next);
+    }
+  }
+  return bounds ? { root, bounds } : index;
+};
+
+export const buildSpatialIndex = (elements: WhiteboardElement[]): SpatialIndex => {
+  const byId = new Map(elements.map(el => [el.id, el]));
+  return updateSpatialIndex(emptySpatialIndex, byId.keys(), id => byId.get(id));
+};
+
+// Work a query did, independent of the machine it ran on
+export interface QueryStats {
+  nodes: number;
+  entries: number;
+}
+
+// Ids of the indexed elements whose bounds intersect `rect`, in no
+// particular order. Visited nodes and tested entries are added to `stats`.
+export const querySpatialIndex = (index: SpatialIndex, rect: BBox, stats?: QueryStats): string[] => {
+  const result: string[] = [];
+  const stack = [index.root];
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    if (!boundsIntersect(node.bounds, rect)) continue;
+    if (stats) {
+      stats.nodes++;
+      stats.entries += node.entries.length;
+    }
+    node.entries.forEach(entry => {
+      if (boundsIntersect(entry.bounds, rect)) result.push(entry.id);
+    });
+    if (node.children) stack.push(...node.children);
+  }
+  return result;
+};
+
+export const boundsAroundPoint = (point: Point, radius: number): BBox => ({
+  x: point.x - radius,
+  y: point.y - radius,
+  width: radius * 2,
+  height: radius * 2,
+});
+
+// Elements intersecting `rect` in paint order. `order` maps each id to its
+// position in `elements`.
+export const queryElements = (
+  index: SpatialIndex,
+  elements: WhiteboardElement[],
+  order: Map<string, number>,
+  rect: BBox,
+  stats?: QueryStats
+): WhiteboardElement[] =>
+  querySpatialIndex(index, rect, stats)
+    .map(id => order.get(id))
+    .filter((i): i is number => i !== undefined)
+    .sort((a, b) => a - b)
+    .map(i => elements[i]);
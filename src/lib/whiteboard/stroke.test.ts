@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { Point } from './types';
+import { distanceToSegment } from './geometry';
+import { createRandom } from './convergence';
+import { smoothPoint, simplifyPoints } from './stroke';
+
+// Samples as a pointer would report them along `path` (t from 0 to 1), with
+// up to `jitter` pixels of hand tremor in each axis.
+const sampleStroke = (path: (t: number) => Point, samples: number, jitter: number, seed = 1): Point[] => {
+  const random = createRandom(seed);
+  return Array.from({ length: samples }, (_, i) => {
+    const p = path(i / (samples - 1));
+    return { x: p.x + (random() - 0.5) * 2 * jitter, y: p.y + (random() - 0.5) * 2 * jitter };
+  });
+};
+
+// What the canvas stores while drawing: every sample smoothed against the last stored point
+const smoothStroke = (raw: Point[], streamline?: number): Point[] =>
+  raw.slice(1).reduce((points, sample) => [...points, smoothPoint(points[points.length - 1], sample, streamline)], [raw[0]]);
+
+const maxDeviation = (points: Point[], simplified: Point[]): number =>
+  Math.max(
+    ...points.map(p =>
+      Math.min(...simplified.slice(1).map((q, i) => distanceToSegment(p, simplified[i], q)))
+    )
+  );
+
+const line = (t: number): Point => ({ x: t * 400, y: t * 100 });
+const circle = (t: number): Point => ({ x: 200 + Math.cos(t * 2 * Math.PI) * 100, y: 200 + Math.sin(t * 2 * Math.PI) * 100 });
+const scribble = (t: number): Point => ({ x: t * 600, y: 150 + Math.sin(t * 6 * Math.PI) * 80 });
+
+describe('smoothPoint', () => {
+  it('keeps the raw sample without streamline', () => {
+    expect(smoothPoint({ x: 0, y: 0 }, { x: 10, y: 20 }, 0)).toEqual({ x: 10, y: 20 });
+  });
+
+  it('trails the pointer by the streamline factor', () => {
+    expect(smoothPoint({ x: 0, y: 0 }, { x: 10, y: 20 }, 0.5)).toEqual({ x: 5, y: 10 });
+    expect(smoothPoint({ x: 0, y: 0 }, { x: 10, y: 20 }, 0.75)).toEqual({ x: 2.5, y: 5 });
+  });
+
+  it('smooths pen pressure along with the position', () => {
+    expect(smoothPoint({ x: 0, y: 0, pressure: 0.2 }, { x: 10, y: 0, pressure: 0.6 }, 0.5)).toEqual({
+      x: 5,
+      y: 0,
+      pressure: 0.4,
+    });
+    expect(smoothPoint({ x: 0, y: 0 }, { x: 10, y: 0, pressure: 0.6 }, 0.5).pressure).toBe(0.6);
+  });
+
+  it('takes out much of the tremor', () => {
+    const raw = sampleStroke(line, 200, 2);
+    const meanError = (points: Point[]) =>
+      points.reduce((sum, p) => sum + distanceToSegment(p, line(0), line(1)), 0) / points.length;
+    expect(meanError(smoothStroke(raw))).toBeLessThan(meanError(raw) * 0.75);
+  });
+});
+
+describe('simplifyPoints', () => {
+  it('leaves short strokes and a zero tolerance alone', () => {
+    const points = [{ x: 0, y: 0 }, { x: 1, y: 1 }];
+    expect(simplifyPoints(points)).toBe(points);
+    const raw = sampleStroke(circle, 50, 0);
+    expect(simplifyPoints(raw, 0)).toBe(raw);
+  });
+
+  it('reduces a straight stroke to its end points', () => {
+    const points = sampleStroke(line, 200, 0);
+    expect(simplifyPoints(points)).toEqual([points[0], points[199]]);
+  });
+
+  it('keeps every point within the tolerance of the simplified stroke', () => {
+    const points = smoothStroke(sampleStroke(scribble, 600, 1.5));
+    [0.5, 1, 2, 4].forEach(tolerance => {
+      expect(maxDeviation(points, simplifyPoints(points, tolerance))).toBeLessThanOrEqual(tolerance);
+    });
+  });
+
+  // Point counts before and after, for smoothed strokes with hand tremor
+  it.each([
+    { name: 'line', path: line, samples: 200, counts: [[0.5, 87], [1, 37], [2, 4], [4, 2]] },
+    { name: 'circle', path: circle, samples: 400, counts: [[0.5, 144], [1, 47], [2, 23], [4, 18]] },
+    { name: 'scribble', path: scribble, samples: 600, counts: [[0.5, 207], [1, 79], [2, 35], [4, 26]] },
+  ])('reduces a $name of $samples samples', ({ path, samples, counts }) => {
+    const points = smoothStroke(sampleStroke(path, samples, 1.5));
+    expect(points).toHaveLength(samples);
+    counts.forEach(([tolerance, count]) => {
+      expect([tolerance, simplifyPoints(points, tolerance).length]).toEqual([tolerance, count]);
+    });
+  });
+});
@@ -0,0 +1,55 @@
+import { Point } from './types';
+import { distanceToSegment } from './geometry';
+
+// --- FREEHAND STROKES ---
+// Raw pointer samples are smoothed while drawing (each stored point trails
+// the pointer a little) and simplified with Ramer-Douglas-Peucker when the
+// stroke is committed, so only the points that shape the curve are synced.
+
+// 0 keeps raw samples, values towards 1 smooth more but lag behind the pointer.
+export const DEFAULT_STREAMLINE = 0.5;
+// Maximum deviation, in screen pixels, a simplified stroke may have from the
+// drawn one.
+export const DEFAULT_SIMPLIFY_TOLERANCE = 1;
+
+// Moves the previous stored point part of the way towards the new sample.
+export const smoothPoint = (previous: Point, raw: Point, streamline = DEFAULT_STREAMLINE): Point => {
+  const t = 1 - streamline;
+  const point: Point = {
+    x: previous.x + (raw.x - previous.x) * t,
+    y: previous.y + (raw.y - previous.y) * t,
+  };
+  if (raw.pressure !== undefined) {
+    point.pressure = (previous.pressure ?? raw.pressure) + (raw.pressure - (previous.pressure ?? raw.pressure)) * t;
+  }
+  return point;
+};
+
+// Ramer-Douglas-Peucker, iterative so long strokes cannot overflow the stack.
+export const simplifyPoints = (points: Point[], tolerance = DEFAULT_SIMPLIFY_TOLERANCE): Point[] => {
+  if (points.length <= 2 || tolerance <= 0) return points;
+
+  const keep = new Uint8Array(points.length);
+  keep[0] = 1;
+  keep[points.length - 1] = 1;
+  const stack: [number, number][] = [[0, points.length - 1]];
+
+  while (stack.length > 0) {
+    const [start, end] = stack.pop()!;
+    let maxDistance = 0;
+    let index = -1;
+    for (let i = start + 1; i < end; i++) {
+      const distance = distanceToSegment(points[i], points[start], points[end]);
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        index = i;
+      }
+    }
+    if (index !== -1 && maxDistance > tolerance) {
+      keep[index] = 1;
+      stack.push([start, index], [index, end]);
+    }
+  }
+
+  return points.filter((_, i) => keep[i] === 1);
+};
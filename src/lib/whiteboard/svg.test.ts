@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { WhiteboardElement } from './types';
+import { getRotatedBounds, unionBounds } from './geometry';
+import { elementsToSvg } from './svg';
+
+const base = { color: '#1e1e1e', strokeWidth: 2 };
+
+const freehand: WhiteboardElement = {
+  ...base,
+  id: 'freehand',
+  type: 'freehand',
+  points: [
+    { x: 10, y: 10 },
+    { x: 30, y: 25 },
+    { x: 55, y: 20 },
+    { x: 80, y: 40 },
+  ],
+};
+
+const pressure: WhiteboardElement = {
+  ...base,
+  id: 'pressure',
+  type: 'freehand',
+  strokeWidth: 6,
+  points: [
+    { x: 10, y: 60, pressure: 0.2 },
+    { x: 40, y: 70, pressure: 0.6 },
+    { x: 70, y: 65, pressure: 1 },
+    { x: 100, y: 80, pressure: 0.4 },
+  ],
+};
+
+const rect: WhiteboardElement = { ...base, id: 'rect', type: 'rect', color: '#e03131', points: [{ x: 120, y: 10 }, { x: 200, y: 60 }] };
+
+const rotatedRect: WhiteboardElement = { ...rect, id: 'rotated', rotation: Math.PI / 6, points: [{ x: 120, y: 80 }, { x: 200, y: 120 }] };
+
+const circle: WhiteboardElement = { ...base, id: 'circle', type: 'circle', color: '#2f9e44', points: [{ x: 250, y: 40 }, { x: 280, y: 40 }] };
+
+const arrow: WhiteboardElement = { ...base, id: 'arrow', type: 'arrow', color: '#1971c2', points: [{ x: 230, y: 100 }, { x: 320, y: 140 }] };
+
+const text: WhiteboardElement = {
+  ...base,
+  id: 'text',
+  type: 'text',
+  text: 'Plan <A> & "B"',
+  fontSize: 16,
+  points: [{ x: 20, y: 150 }],
+};
+
+// Erases a band through the freehand stroke drawn before it
+const eraser: WhiteboardElement = {
+  ...base,
+  id: 'eraser',
+  type: 'eraser',
+  strokeWidth: 12,
+  points: [
+    { x: 40, y: 0 },
+    { x: 45, y: 30 },
+    { x: 50, y: 50 },
+  ],
+};
+
+const toSvg = (elements: WhiteboardElement[], background: string | null = null) =>
+  elementsToSvg(elements, { region: unionBounds(elements.map(getRotatedBounds)), padding: 10, background });
+
+describe('elementsToSvg', () => {
+  it.each([
+    ['a freehand stroke', [freehand]],
+    ['a pressure stroke', [pressure]],
+    ['a rectangle', [rect]],
+    ['a rotated rectangle', [rotatedRect]],
+    ['a circle', [circle]],
+    ['an arrow', [arrow]],
+    ['text', [text]],
+    ['an eraser mask', [freehand, eraser]],
+  ])('renders %s', (_, elements) => {
+    expect(toSvg(elements)).toMatchSnapshot();
+  });
+
+  it('renders a whole board on a background', () => {
+    expect(toSvg([freehand, pressure, rect, rotatedRect, circle, arrow, text, eraser], '#ffffff')).toMatchSnapshot();
+  });
+
+  it('produces the same output on every run', () => {
+    const elements = [freehand, pressure, eraser, rotatedRect, text];
+    expect(toSvg(elements)).toBe(toSvg(elements.map(el => ({ ...el }))));
+  });
+});
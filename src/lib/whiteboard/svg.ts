@@ -0,0 +1,203 @@
+import { BBox, Point, WhiteboardElement } from './types';
+import { getArrowHead, getBoundsCenter, getCircleGeometry, getElementBounds } from './geometry';
+import { getPressureWidth } from './render';
+
+// --- SVG EXPORT ---
+// Serializes elements to a standalone SVG that matches the canvas rendering:
+// freehand strokes use the same midpoint curves, arrows get their heads and
+// eraser masks become SVG masks over everything painted before them. The
+// output depends only on the input (fixed attribute order, rounded numbers,
+// sequential mask ids), so it can be compared between runs.
+
+export interface SvgOptions {
+  // World-space area to show
+  region: BBox;
+  padding?: number;
+  // CSS color, or null for a transparent background
+  background?: string | null;
+}
+
+// Two decimals are well below a pixel at any useful zoom
+const num = (n: number): string => {
+  const rounded = Math.round(n * 100) / 100;
+  return Object.is(rounded, -0) ? '0' : String(rounded);
+};
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const attrs = (values: Record<string, string | number>) =>
+  Object.entries(values)
+    .map(([key, value]) => `${key}="${typeof value === 'number' ? num(value) : escapeXml(value)}"`)
+    .join(' ');
+
+const midpoint = (a: Point, b: Point): Point => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+
+// Path data for the canvas's traceSmoothPath
+const smoothPathData = (points: Point[]): string => {
+  const parts = [`M${num(points[0].x)} ${num(points[0].y)}`];
+  for (let i = 1; i < points.length - 1; i++) {
+    const mid = midpoint(points[i], points[i + 1]);
+    parts.push(`Q${num(points[i].x)} ${num(points[i].y)} ${num(mid.x)} ${num(mid.y)}`);
+  }
+  const last = points[points.length - 1];
+  parts.push(`L${num(last.x)} ${num(last.y)}`);
+  return parts.join(' ');
+};
+
+const strokeAttrs = (element: WhiteboardElement) => ({
+  fill: 'none',
+  stroke: element.color,
+  'stroke-width': element.strokeWidth,
+  'stroke-linecap': 'round',
+  'stroke-linejoin': 'round',
+});
+
+const dot = (center: Point, radius: number, color: string) =>
+  `<circle ${attrs({ cx: center.x, cy: center.y, r: radius, fill: color })}/>`;
+
+// Variable-width strokes are split into curve segments, each stroked at the
+// width of its control point, like drawPressureStroke on the canvas.
+const pressureStroke = (element: WhiteboardElement): string => {
+  const { points, strokeWidth, color } = element;
+  if (points.length === 1) return dot(points[0], getPressureWidth(strokeWidth, points[0]) / 2, color);
+
+  const segments: string[] = [];
+  let start = points[0];
+  for (let i = 1; i < points.length; i++) {
+    const end = i < points.length - 1 ? midpoint(points[i], points[i + 1]) : points[i];
+    const d = `M${num(start.x)} ${num(start.y)} Q${num(points[i].x)} ${num(points[i].y)} ${num(end.x)} ${num(end.y)}`;
+    segments.push(`<path ${attrs({ d, 'stroke-width': getPressureWidth(strokeWidth, points[i]) })}/>`);
+    start = end;
+  }
+  const group = { fill: 'none', stroke: color, 'stroke-linecap': 'round', 'stroke-linejoin': 'round' };
+  return `<g ${attrs(group)}>${segments.join('')}</g>`;
+};
+
+// Rotates around the center of the unrotated bounds, as drawElement does
+const withRotation = (element: WhiteboardElement, node: string): string => {
+  if (!node || !element.rotation) return node;
+  const center = getBoundsCenter(getElementBounds(element));
+  const degrees = (element.rotation * 180) / Math.PI;
+  return `<g transform="rotate(${num(degrees)} ${num(center.x)} ${num(center.y)})">${node}</g>`;
+};
+
+// Markup for one element, or '' if it draws nothing (as on the canvas).
+const elementToSvg = (element: WhiteboardElement): string => {
+  const { points } = element;
+  let node = '';
+
+  switch (element.type) {
+    case 'freehand':
+      if (points.some(p => p.pressure !== undefined)) {
+        node = pressureStroke(element);
+      } else if (points.length > 1) {
+        node = `<path ${attrs({ d: smoothPathData(points), ...strokeAttrs(element) })}/>`;
+      }
+      break;
+
+    case 'rect':
+      if (points.length === 2) {
+        const [start, end] = points;
+        node = `<rect ${attrs({
+          x: Math.min(start.x, end.x),
+          y: Math.min(start.y, end.y),
+          width: Math.abs(end.x - start.x),
+          height: Math.abs(end.y - start.y),
+          ...strokeAttrs(element),
+        })}/>`;
+      }
+      break;
+
+    case 'circle':
+      if (points.length === 2) {
+        const { center, radius } = getCircleGeometry(element);
+        node = `<circle ${attrs({ cx: center.x, cy: center.y, r: radius, ...strokeAttrs(element) })}/>`;
+      }
+      break;
+
+    case 'arrow':
+      if (points.length === 2) {
+        const [start, end] = points;
+        const [left, right] = getArrowHead(start, end);
+        const d = [
+          `M${num(start.x)} ${num(start.y)} L${num(end.x)} ${num(end.y)}`,
+          `M${num(left.x)} ${num(left.y)} L${num(end.x)} ${num(end.y)} L${num(right.x)} ${num(right.y)}`,
+        ].join(' ');
+        node = `<path ${attrs({ d, ...strokeAttrs(element) })}/>`;
+      }
+      break;
+
+    case 'text':
+      if (points.length > 0 && element.text) {
+        const text = attrs({
+          x: points[0].x,
+          y: points[0].y,
+          'font-family': 'Arial',
+          'font-size': element.fontSize || 16,
+          fill: element.color,
+        });
+        node = `<text ${text} xml:space="preserve">${escapeXml(element.text)}</text>`;
+      }
+      break;
+  }
+
+  return withRotation(element, node);
+};
+
+// Eraser mask: black where the eraser passed hides what lies beneath it
+const maskShape = (element: WhiteboardElement): string => {
+  const { points, strokeWidth } = element;
+  if (points.length === 0) return '';
+  const shape =
+    points.length === 1
+      ? dot(points[0], strokeWidth / 2, '#000000')
+      : `<path ${attrs({ d: smoothPathData(points), ...strokeAttrs({ ...element, color: '#000000' }) })}/>`;
+  return withRotation(element, shape);
+};
+
+export const elementsToSvg = (
+  elements: WhiteboardElement[],
+  { region, padding = 0, background = null }: SvgOptions
+): string => {
+  const x = region.x - padding;
+  const y = region.y - padding;
+  const width = region.width + padding * 2;
+  const height = region.height + padding * 2;
+
+  const defs: string[] = [];
+  let content = '';
+  elements.forEach(element => {
+    if (element.hidden) return;
+    if (element.type !== 'eraser') {
+      content += elementToSvg(element);
+      return;
+    }
+    // Everything painted so far goes under the mask
+    const shape = maskShape(element);
+    if (!shape || !content) return;
+    const id = `erase-${defs.length + 1}`;
+    const area = attrs({ x, y, width, height, fill: '#ffffff' });
+    defs.push(`<mask id="${id}" maskUnits="userSpaceOnUse"><rect ${area}/>${shape}</mask>`);
+    content = `<g mask="url(#${id})">${content}</g>`;
+  });
+
+  const root = attrs({
+    xmlns: 'http://www.w3.org/2000/svg',
+    width,
+    height,
+    viewBox: `${num(x)} ${num(y)} ${num(width)} ${num(height)}`,
+  });
+  return [
+    `<svg ${root}>`,
+    defs.length > 0 ? `<defs>${defs.join('')}</defs>` : '',
+    background ? `<rect ${attrs({ x, y, width, height, fill: background })}/>` : '',
+    content,
+    '</svg>',
+  ].join('');
+};
@@ -0,0 +1,171 @@
+import { BBox, Point, WhiteboardElement } from './types';
+import {
+  getBoundsCenter,
+  getElementBounds,
+  getRotatedBounds,
+  rotatePoint,
+  unionBounds,
+} from './geometry';
+
+// --- SELECTION FRAME AND HANDLES ---
+
+export type ResizeHandle = 'nw' | 'n' | 'ne' | 'e' | 'se' | 's' | 'sw' | 'w';
+export type TransformHandle = ResizeHandle | 'rotate';
+
+export const RESIZE_HANDLES: ResizeHandle[] = ['nw', 'n', 'ne', 'e', 'se', 's', 'sw', 'w'];
+
+// Screen-space sizes, divided by zoom when placed in world space.
+export const HANDLE_SIZE = 8;
+export const ROTATE_HANDLE_OFFSET = 24;
+
+// The box drawn around a selection. A single element keeps its own rotation;
+// several elements share an axis-aligned box around their rotated bounds.
+export interface SelectionFrame {
+  bounds: BBox;
+  rotation: number;
+}
+
+export const getSelectionFrame = (elements: WhiteboardElement[]): SelectionFrame | null => {
+  if (elements.length === 0) return null;
+  if (elements.length === 1) {
+    return { bounds: getElementBounds(elements[0]), rotation: elements[0].rotation || 0 };
+  }
+  return { bounds: unionBounds(elements.map(getRotatedBounds)), rotation: 0 };
+};
+
+const handleLocalPosition = (bounds: BBox, handle: TransformHandle, zoom: number): Point => {
+  const { x, y, width, height } = bounds;
+  const cx = x + width / 2;
+  const cy = y + height / 2;
+  switch (handle) {
+    case 'nw': return { x, y };
+    case 'n': return { x: cx, y };
+    case 'ne': return { x: x + width, y };
+    case 'e': return { x: x + width, y: cy };
+    case 'se': return { x: x + width, y: y + height };
+    case 's': return { x: cx, y: y + height };
+    case 'sw': return { x, y: y + height };
+    case 'w': return { x, y: cy };
+    case 'rotate': return { x: cx, y: y - ROTATE_HANDLE_OFFSET / zoom };
+  }
+};
+
+export const getHandlePosition = (frame: SelectionFrame, handle: TransformHandle, zoom: number): Point =>
+  rotatePoint(handleLocalPosition(frame.bounds, handle, zoom), getBoundsCenter(frame.bounds), frame.rotation);
+
+export const hitTestHandle = (frame: SelectionFrame, point: Point, zoom: number): TransformHandle | null => {
+  const radius = HANDLE_SIZE / zoom;
+  const handles: TransformHandle[] = ['rotate', ...RESIZE_HANDLES];
+  return (
+    handles.find(handle => {
+      const p = getHandlePosition(frame, handle, zoom);
+      return Math.abs(p.x - point.x) <= radius && Math.abs(p.y - point.y) <= radius;
+    }) ?? null
+  );
+};
+
+// --- TRANSFORMS ---
+// All transforms are pure: they take the elements as they were when the drag
+// started and return the transformed copies.
+
+export const moveElements = (elements: WhiteboardElement[], dx: number, dy: number): WhiteboardElement[] =>
+  elements.map(el => ({
+    ...el,
+    points: el.points.map(p => ({ ...p, x: p.x + dx, y: p.y + dy })),
+  }));
+
+export const resizeElements = (
+  elements: WhiteboardElement[],
+  frame: SelectionFrame,
+  handle: ResizeHandle,
+  pointer: Point
+): WhiteboardElement[] => {
+  const { bounds, rotation } = frame;
+  const center = getBoundsCenter(bounds);
+  const local = rotatePoint(pointer, center, -rotation);
+
+  let left = bounds.x;
+  let top = bounds.y;
+  let right = bounds.x + bounds.width;
+  let bottom = bounds.y + bounds.height;
+  if (handle.includes('w')) left = local.x;
+  if (handle.includes('e')) right = local.x;
+  if (handle.includes('n')) top = local.y;
+  if (handle.includes('s')) bottom = local.y;
+
+  let sx = bounds.width === 0 ? 1 : (right - left) / bounds.width;
+  let sy = bounds.height === 0 ? 1 : (bottom - top) / bounds.height;
+  // A circle on its own keeps its aspect ratio, so side handles scale both axes
+  if (elements.length === 1 && elements[0].type === 'circle') {
+    const horizontal = handle.includes('w') || handle.includes('e');
+    const vertical = handle.includes('n') || handle.includes('s');
+    const scale = horizontal && (!vertical || Math.abs(sx) >= Math.abs(sy)) ? sx : sy;
+    sx = scale;
+    sy = scale;
+  }
+  // The handle opposite the dragged one stays in place
+  const anchor = {
+    x: handle.includes('w') ? bounds.x + bounds.width : handle.includes('e') ? bounds.x : center.x,
+    y: handle.includes('n') ? bounds.y + bounds.height : handle.includes('s') ? bounds.y : center.y,
+  };
+
+  // Scaling moves the frame center, which is also the rotation pivot; shift
+  // everything so the anchor stays where it was on screen.
+  const newCenter = {
+    x: anchor.x + (center.x - anchor.x) * sx,
+    y: anchor.y + (center.y - anchor.y) * sy,
+  };
+  const before = rotatePoint(anchor, center, rotation);
+  const after = rotatePoint(anchor, newCenter, rotation);
+  const shiftX = before.x - after.x;
+  const shiftY = before.y - after.y;
+
+  const transform = (p: Point): Point => ({
+    ...p,
+    x: anchor.x + (p.x - anchor.x) * sx + shiftX,
+    y: anchor.y + (p.y - anchor.y) * sy + shiftY,
+  });
+
+  return elements.map(el => {
+    // Circles are stored as center and edge point, which cannot be scaled
+    // axis by axis; the center moves with the frame and the radius scales by
+    // the mean of both axes
+    if (el.type === 'circle' && el.points.length >= 2) {
+      const [c, edge] = el.points;
+      const radius = Math.hypot(edge.x - c.x, edge.y - c.y) * ((Math.abs(sx) + Math.abs(sy)) / 2);
+      const moved = transform(c);
+      return { ...el, points: [moved, { x: moved.x + radius, y: moved.y }] };
+    }
+    return {
+      ...el,
+      points: el.points.map(transform),
+      ...(el.type === 'text' ? { fontSize: Math.max(4, Math.round((el.fontSize || 16) * Math.abs(sy))) } : {}),
+    };
+  });
+};
+
+// Rotates every element around the frame center by `angle` radians.
+export const rotateElements = (
+  elements: WhiteboardElement[],
+  frame: SelectionFrame,
+  angle: number
+): WhiteboardElement[] => {
+  const pivot = getBoundsCenter(frame.bounds);
+  return elements.map(el => {
+    const center = getBoundsCenter(getElementBounds(el));
+    const moved = rotatePoint(center, pivot, angle);
+    const dx = moved.x - center.x;
+    const dy = moved.y - center.y;
+    return {
+      ...el,
+      points: el.points.map(p => ({ ...p, x: p.x + dx, y: p.y + dy })),
+      rotation: (el.rotation || 0) + angle,
+    };
+  });
+};
+
+// Angle of the pointer around the frame center, zero when pointing straight up.
+export const getRotationAngle = (frame: SelectionFrame, pointer: Point): number => {
+  const center = getBoundsCenter(frame.bounds);
+  return Math.atan2(pointer.y - center.y, pointer.x - center.x) + Math.PI / 2;
+};
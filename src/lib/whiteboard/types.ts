@@ -0,0 +1,35 @@
+// Shared whiteboard model used by the canvas, the reducer and the sync layer.
+
+export type Tool = 'select' | 'pan' | 'freehand' | 'rect' | 'circle' | 'arrow' | 'text' | 'eraser';
+
+export interface Point {
+  x: number;
+  y: number;
+  // Stylus pressure in 0..1; only recorded for pen input.
+  pressure?: number;
+}
+
+export interface BBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface WhiteboardElement {
+  id: string;
+  type: Tool;
+  points: Point[];
+  color: string;
+  strokeWidth: number;
+  fontSize?: number;
+  text?: string;
+  bbox?: BBox;
+  // Radians, applied around the center of the element's unrotated bounds.
+  rotation?: number;
+  // Groups this element belongs to, innermost first.
+  groupIds?: string[];
+  // Hidden elements are not drawn; hidden and locked ones ignore the pointer.
+  hidden?: boolean;
+  locked?: boolean;
+}
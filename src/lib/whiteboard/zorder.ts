@@ -0,0 +1,81 @@
+import { BoardDocument, positionBetween } from './crdt';
+import { WhiteboardOpBody } from './ops';
+
+// --- Z-ORDER ---
+// Commands compute the desired paint order of element ids and then emit
+// reorder ops only for the elements that move. Moved elements get fresh
+// fractional positions between their unmoved neighbours, so concurrent
+// reorders by other users merge like any other register write.
+
+export type ZOrderCommand = 'forward' | 'backward' | 'front' | 'back';
+
+const reorderOps = (doc: BoardDocument, order: string[], moved: Set<string>): WhiteboardOpBody[] => {
+  const ops: WhiteboardOpBody[] = [];
+  let previous: string | null = null;
+  order.forEach((id, index) => {
+    if (!moved.has(id)) {
+      previous = doc.records[id]?.position.value ?? previous;
+      return;
+    }
+    const nextId = order.slice(index + 1).find(other => !moved.has(other));
+    const next = nextId ? doc.records[nextId]?.position.value ?? null : null;
+    const position = positionBetween(previous, next);
+    ops.push({ kind: 'reorder', id, position });
+    previous = position;
+  });
+  return ops;
+};
+
+// Moves each selected block one step past its nearest unselected neighbour.
+const stepOrder = (order: string[], selected: Set<string>, direction: 1 | -1): string[] => {
+  const result = direction === 1 ? [...order].reverse() : [...order];
+  for (let i = 1; i < result.length; i++) {
+    if (selected.has(result[i]) && !selected.has(result[i - 1])) {
+      let j = i;
+      while (j < result.length && selected.has(result[j])) j++;
+      const [neighbour] = result.splice(i - 1, 1);
+      result.splice(j - 1, 0, neighbour);
+      i = j;
+    }
+  }
+  return direction === 1 ? result.reverse() : result;
+};
+
+export const zOrderOps = (
+  doc: BoardDocument,
+  order: string[],
+  ids: string[],
+  command: ZOrderCommand
+): WhiteboardOpBody[] => {
+  const selected = new Set(ids);
+  const others = order.filter(id => !selected.has(id));
+  const picked = order.filter(id => selected.has(id));
+  if (picked.length === 0) return [];
+
+  let next: string[];
+  switch (command) {
+    case 'front':
+      next = [...others, ...picked];
+      break;
+    case 'back':
+      next = [...picked, ...others];
+      break;
+    case 'forward':
+      next = stepOrder(order, selected, 1);
+      break;
+    case 'backward':
+      next = stepOrder(order, selected, -1);
+      break;
+  }
+
+  if (next.every((id, i) => id === order[i])) return [];
+  return reorderOps(doc, next, selected);
+};
+
+// Moves one element to `index` in the paint order (used by drag-to-reorder).
+export const moveToIndexOps = (doc: BoardDocument, order: string[], id: string, index: number): WhiteboardOpBody[] => {
+  const next = order.filter(other => other !== id);
+  next.splice(Math.max(0, Math.min(index, next.length)), 0, id);
+  if (next.every((other, i) => other === order[i])) return [];
+  return reorderOps(doc, next, new Set([id]));
+};